@@ -0,0 +1,101 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+// Compares the trie based `LookupMatcher` against the linear scan it
+// replaced, using a large list of module names like those seen in imports.
+// Run with `npm run bench`.
+
+import { LookupMatcher } from "../src/grammar/matchers/lookup"
+import { pointsMatch, toPoints } from "../src/util"
+
+/** The previous `LookupMatcher`, which checks every entry, longest first. */
+class LinearLookupMatcher {
+  private entries: number[][]
+  private lengths = new Map<number[], number>()
+  private max: number
+
+  constructor(src: string[], private ignoreCase = false) {
+    const sorted = [...src].sort((a, b) => b.length - a.length)
+    this.max = sorted[0].length
+    this.entries = sorted.map(entry => {
+      if (ignoreCase) entry = entry.toLowerCase()
+      const points = toPoints(entry)
+      this.lengths.set(points, entry.length)
+      return points
+    })
+  }
+
+  match(str: string, pos: number) {
+    const slice = str.slice(pos, pos + this.max)
+    const against = toPoints(this.ignoreCase ? slice.toLowerCase() : slice)
+    for (let i = 0; i < this.entries.length; i++) {
+      const points = this.entries[i]
+      if (pointsMatch(points, against, 0)) {
+        const length = this.lengths.get(points)!
+        return { total: str.slice(pos, pos + length), captures: null, length }
+      }
+    }
+    return null
+  }
+}
+
+/** Small seeded PRNG, so that every run uses the same data. */
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    return seed / 2147483648
+  }
+}
+
+const rand = random(42)
+const pick = <T>(list: T[]) => list[Math.floor(rand() * list.length)]
+
+const PARTS = ["core", "util", "http", "json", "std", "io", "net", "sync", "Data", "Text"]
+
+const names = new Set<string>()
+while (names.size < 2000) {
+  const count = 1 + Math.floor(rand() * 3)
+  const parts = Array.from({ length: count }, () => pick(PARTS))
+  names.add(`${parts.join("_")}${Math.floor(rand() * 100)}`)
+}
+const entries = Array.from(names)
+
+// text where roughly half of the words are in the list
+const words = Array.from({ length: 5000 }, () =>
+  rand() < 0.5 ? pick(entries) : `${pick(PARTS)}x${Math.floor(rand() * 1000)}`
+)
+const text = words.join(" ")
+
+/**
+ * Runs a matcher at every position of the text, returning the time taken
+ * per pass and the total length matched, so that results can be compared.
+ */
+function run(matcher: { match(str: string, pos: number): { length: number } | null }) {
+  let matched = 0
+  const passes = 3
+  const start = performance.now()
+  for (let pass = 0; pass < passes; pass++) {
+    matched = 0
+    for (let pos = 0; pos < text.length; pos++) {
+      const result = matcher.match(text, pos)
+      if (result) matched += result.length
+    }
+  }
+  return { time: (performance.now() - start) / passes, matched }
+}
+
+for (const ignoreCase of [false, true]) {
+  const linear = run(new LinearLookupMatcher(entries, ignoreCase))
+  const trie = run(new LookupMatcher(entries, ignoreCase))
+
+  if (linear.matched !== trie.matched) {
+    throw new Error(`Results differ: ${linear.matched} vs. ${trie.matched}`)
+  }
+
+  console.log(
+    `${entries.length} entries, ${text.length} positions, ignoreCase: ${ignoreCase}\n` +
+      `  linear: ${linear.time.toFixed(2)}ms\n` +
+      `  trie:   ${trie.time.toFixed(2)}ms (${(linear.time / trie.time).toFixed(1)}x)`
+  )
+}
@@ -10,8 +10,13 @@ import type { Node } from "../grammar/node"
 /**
  * An extended form of CodeMirror's `CompletionContext` provided to
  * Tarnation autocomplete handlers.
+ *
+ * `Names` restricts the node names that can be checked for, see
+ * `ParserConfiguration`.
  */
-export class TarnationCompletionContext extends CompletionContext {
+export class TarnationCompletionContext<
+  Names extends string = string
+> extends CompletionContext {
   /** The {@link Node} type used by the node at the current position. */
   declare type: Node
 
@@ -158,7 +163,7 @@ export class TarnationCompletionContext extends CompletionContext {
    * @param parent - The name(s) of the parent to find.
    * @param max - The maximum number of parents to traverse upwards for.
    */
-  parent(parent: string | string[], max?: number) {
+  parent(parent: Names | Names[], max?: number) {
     return this.findParentOf(this.node, parent, max)
   }
 
@@ -180,7 +185,7 @@ export class TarnationCompletionContext extends CompletionContext {
    * @param right - The right node to check for. Defaults to the same as
    *   the `left` node.
    */
-  isInbetween(left: string, right = left) {
+  isInbetween(left: Names, right: Names = left) {
     const leftNode = this.tree.resolve(this.pos, 1)
     const rightNode = this.tree.resolve(this.pos, -1)
     if (!leftNode || !rightNode) return false
@@ -65,12 +65,24 @@ export const REUSE_LEFT = true
 /** If true, the "right" (ahead) side of a parse will be reused. */
 export const REUSE_RIGHT = true
 
-/** Amount of characters to slice before the starting position of the parse. */
+/**
+ * Amount of characters to slice before the starting position of the parse,
+ * if a grammar has a rule that can look an unbounded distance behind.
+ */
 export const MARGIN_BEFORE = 32
 
-/** Amount of characters to slice after the requested ending position of a parse. */
+/**
+ * Amount of characters to slice after the requested ending position of a
+ * parse, if a grammar has a rule that can look an unbounded distance ahead.
+ */
 export const MARGIN_AFTER = 128
 
+/**
+ * How many times a backtracking chain can try to match one of its rules,
+ * before it gives up and fails to match.
+ */
+export const CHAIN_BACKTRACK_LIMIT = 4096
+
 // disabled as it doesn't seem to be needed for performance
 /** If true, the parser will try to limit what it handles to the size of the viewport. */
 export const LIMIT_TO_VIEWPORT = false
@@ -17,60 +17,197 @@ type FilterOut<O extends Record<string, any>, T> = {
 /** A type which may be an array of itself, or just itself. */
 type Arrayable<T> = T | T[]
 
-// TODO: document this
-// adding doc comments would be helpful, but what would be more helpful
-// is a JSON schema. doing that will take a while, so for now this is undocumented.
-// it's _mostly_ self-explanatory, but there are some things that are not obvious
-
-export interface Grammar {
+/**
+ * A Tarnation grammar definition. This is what is usually written in YAML,
+ * and it can be validated ahead of time with `validateGrammar`, or by an
+ * editor using the JSON schema generated from this interface.
+ */
+export interface Grammar extends GrammarImport {
   // CodeMirror language data
 
+  /** Comment tokens, used by CodeMirror's comment toggling commands. */
   comments?: {
+    /** Block comment delimiters, e.g. `<!--` and `-->`. */
     block?: { open: string; close: string }
+    /** Line comment prefix, e.g. `//`. */
     line?: string
   }
 
+  /** Configuration for CodeMirror's bracket closing extension. */
   closeBrackets?: {
+    /** The opening brackets to close automatically. */
     brackets?: string[]
+    /** Characters in front of which brackets will be closed. */
     before?: string
   }
 
+  /** If the text of a line matches this regex, the line will be reindented. */
   indentOnInput?: Regex
 
+  /** Extra characters that should be considered as being part of words. */
   wordChars?: string
 
   // actual grammar
 
-  ignoreCase?: boolean
-
+  /** Node emitted, one character at a time, when nothing else matches. */
   default?: Node
 
+  /** Rules checked in every state, if nothing else in that state matched. */
+  global?: Inside
+
+  /** The rules that the grammar starts in. Optional if `extends` is used. */
+  root?: Inside
+
+  // inheritance
+
+  /**
+   * A grammar to inherit from. Anything not given by this grammar is taken
+   * from it, and its `repository`, `includes`, `macros`, and `imports` are
+   * merged with this grammar's.
+   */
+  extends?: Grammar
+
+  /** Changes made to the grammar, after it has inherited from `extends`. */
+  patches?: Patch[]
+}
+
+/**
+ * The parts of a {@link Grammar} that are used when it is imported by
+ * another grammar. Anything else in an imported grammar is ignored.
+ */
+export interface GrammarImport {
+  /** If true, every pattern in the grammar will be case-insensitive. */
+  ignoreCase?: boolean
+
+  /**
+   * Named rules, states, nodes, and patterns. Anything referenced by name
+   * elsewhere in the grammar is found here. Items given as just a regex
+   * string are also available as `@name` variables inside of patterns.
+   */
   repository?: Record<string, RepositoryItem>
 
+  /** Named lists of repository items, for use with `{ include: name }`. */
   includes?: Record<string, string[]>
 
-  global?: Inside
+  /**
+   * Templates for repository items, rules, states, and lists of rules,
+   * which are expanded wherever they're called with `{ macro: name }`.
+   */
+  macros?: Record<string, Macro>
+
+  /**
+   * Other grammars, by namespace, whose repository items and includes can
+   * be referenced like `namespace.Name`.
+   */
+  imports?: Record<string, Grammar | GrammarImport>
+}
+
+/**
+ * A change made to a grammar that is being extended. Lists of rules are
+ * referred to by a path, which can be `root`, `global`, `includes.name`,
+ * or `repository.Name`, which is the `inside` list of a state.
+ */
+export type Patch = InsertPatch | ReplacePatch | RemovePatch
+
+/** Inserts items into a list of rules. */
+export interface InsertPatch {
+  /** The items to insert. */
+  insert: Arrayable<InsideItem>
+  /** The path to the list to insert into, e.g. `repository.Name`. */
+  into: string
+  /** Name of the item to insert before. If not given, items are appended. */
+  before?: string
+  /** Name of the item to insert after. If not given, items are appended. */
+  after?: string
+}
+
+/** Replaces a repository item. */
+export interface ReplacePatch {
+  /** The name of the repository item to replace. */
+  replace: string
+  /** The new repository item. */
+  with: RepositoryItem
+}
 
-  root: Inside
+/** Removes items from a list of rules. */
+export interface RemovePatch {
+  /** Names of the items to remove. */
+  remove: Arrayable<string>
+  /** The path to the list to remove from, e.g. `includes.name`. */
+  from: string
 }
 
-export type RepositoryItem = Regex | Node | ReuseNode | Rule | State
+/** Anything that can be stored in a {@link Grammar} repository. */
+export type RepositoryItem = Regex | Node | ReuseNode | Rule | State | MacroCall
+
+/**
+ * A template that is expanded wherever it's called. Its parameters are
+ * used in its body as `@name`, the same way as variables are, so a string
+ * argument is matched literally inside of a regex, unless it's a regex
+ * itself. A string that is just a parameter, e.g. `"@rules"`, is replaced
+ * with the argument as it is, which can be a rule or a list of rules.
+ */
+export interface Macro {
+  /** The names of the parameters, in the order their arguments are given. */
+  params?: string[]
+  /**
+   * What the macro expands to. If it's a list of rules, and the macro is
+   * called from a list of rules, the list is inserted in its place.
+   */
+  body: RepositoryItem | Inside
+}
+
+/** Expands a {@link Macro}, e.g. `{ macro: delimited, args: ["(", ")"] }`. */
+export interface MacroCall {
+  /** The name of the macro. */
+  macro: string
+  /** The arguments, one for each of the macro's parameters. */
+  args?: (RepositoryItem | Inside)[]
+}
 
+/** A rule, which matches text somehow and then emits a node. */
 export type Rule = Lookup | Pattern | Chain
 
+/** A node emitted into the syntax tree, along with its CodeMirror props. */
 export interface Node {
+  /** The name of the node. Defaults to the name of its repository key. */
   type?: string
+  /** Shorthand for a `${open}Open` node, closed by a `${open}Close` node. */
   open?: string
+  /** Shorthand for a `${close}Close` node, opened by a `${close}Open` node. */
   close?: string
+  /**
+   * The name that is actually emitted into the syntax tree, if different
+   * from `type`. If false, nothing is emitted.
+   */
   emit?: string | boolean
+  /** The name of a language to nest inside of this node. */
   nest?: string
   // CodeMirror properties, doesn't affect grammar
+  /**
+   * Highlighting tag, such as `keyword` or `function(variableName)`.
+   * Modifiers like `(...)` work the same as in CodeMirror's `styleTags`.
+   */
   tag?: Tag
+  /** Names of nodes that open this node, e.g. brackets. */
   openedBy?: Arrayable<string>
+  /** Names of nodes that close this node, e.g. brackets. */
   closedBy?: Arrayable<string>
+  /** Node groups this node belongs to. */
   group?: Arrayable<string>
+  /**
+   * If true, the node is marked as an error in the syntax tree, like the
+   * nodes the parser emits when it can't advance.
+   */
+  error?: boolean
+  /**
+   * The name of an autocomplete handler for this node. If true, the name
+   * of the node is used.
+   */
   autocomplete?: true | string
+  /** How this node can be folded, if at all. */
   fold?: boolean | "inside" | "past_first_line" | `offset(${number}, ${number})`
+  /** How the contents of this node are indented. */
   indent?:
     | "flat"
     | `delimited(${string})`
@@ -80,52 +217,162 @@ export interface Node {
     | `set(${number})`
 }
 
+/**
+ * A state, which is entered when its `begin` rule matches and exited when
+ * its `end` rule matches. While inside of it, its `inside` rules are used.
+ */
 export interface State extends Node {
+  /** The rule (or name of the rule) that enters this state. */
   begin: string | Rule
+  /** The rule (or name of the rule) that exits this state. */
   end: string | Rule
+  /**
+   * The rules used inside of this state. Can also be a node, which is
+   * wrapped around everything inside, or `inherit` (the default) to keep
+   * the current rules, or `loose` to not affect the stack at all.
+   */
   inside?: Inside | Node | ReuseNode | "inherit" | "loose"
 }
 
+/** Options common to every kind of {@link Rule}. */
 export interface RuleOptions extends Node {
+  /**
+   * Nodes to emit for each capturing group of the rule's pattern, keyed by
+   * the group's index, starting at `0` for the first group, or by the
+   * group's name, if it's a named group, e.g. `(?<label>...)`.
+   */
   captures?: Record<string, Node | ReuseNode | CaptureCondition>
+  /** Changes to the context table, made when this rule matches. */
   context?: Arrayable<ContextSetter>
+  /** If true, the `context` is changed before the rule is even matched. */
   contextImmediate?: boolean
+  /**
+   * A regex that must (or with a `!` prefix, mustn't) match behind the
+   * rule. It's tested against the text up to the rule's position, so `$`,
+   * `\b`, and lookaheads at the end of it can't see past it.
+   */
   lookbehind?: LookbehindSource
+  /** A regex that must match immediately after the rule. */
   lookahead?: Regex
+  /**
+   * If true, the rule emits nothing and consumes nothing, so that the text
+   * can be matched again, e.g. after a state change.
+   */
   rematch?: boolean
+  /**
+   * How much of the text after the rule's position it's given, if it needs
+   * to see further than the parser's margins, e.g. to match an entire
+   * block at once:
+   *
+   * - `line`: Up to and including the end of the line.
+   * - `paragraph`: Up to and including the next blank line.
+   * - `unbounded`: Everything up to the end of the parsed region.
+   *
+   * This only applies to rules matched from a list, or as the `begin` or
+   * `end` of a state. The rules in a chain are given what the chain was.
+   */
+  read?: ReadWindow
 }
 
+/** A rule that matches the longest string from a list of strings. */
 export interface Lookup extends RuleOptions {
+  /**
+   * The list of strings, or a `$var:name` variable holding one. A list
+   * can't be empty.
+   *
+   * @minItems 1
+   */
   lookup: string[] | VarIndex
 }
 
+/** A rule that matches a string or regex, or any of a list of them. */
 export interface Pattern extends RuleOptions {
-  match: Arrayable<string | Regex | VarIndex>
+  /**
+   * The pattern, or list of alternative patterns. A list can't be empty.
+   *
+   * @minItems 1
+   */
+  match: Arrayable<string | Regex | VarIndex | MatcherReference>
 }
 
+/**
+ * A pattern that uses a hand-written matcher, given by name. Matchers are
+ * given in the parser configuration, or as a variable.
+ */
+export interface MatcherReference {
+  /** The name of the matcher. */
+  matcher: string
+}
+
+/** A rule that matches a sequence of other rules. */
 export interface Chain extends RuleOptions {
+  /**
+   * The sequence of rule names. Names can have a `?`, `*`, or `+`
+   * quantifier, and can be separated with `|` (alternatives), or `|*` and
+   * `|+` (repeated alternatives). An item can also be a sequence of names
+   * with parenthesized groups, which can be quantified, e.g. `(A | B C)+`.
+   * In a sequence, a `{m,n}` quantifier matches between `m` and `n` times,
+   * and a name or group prefixed with `&` or `!` is a predicate, which
+   * checks that it matches (or doesn't), without consuming anything.
+   */
   chain: string[]
-  skip?: Regex
+  /**
+   * What is skipped between each rule, e.g. whitespace. A regex is skipped
+   * silently, while a rule, given by name or inline, is emitted into the
+   * chain's node, so that e.g. comments can be highlighted. A list of them
+   * can be given, which are tried in order.
+   */
+  skip?: Arrayable<Regex | string | Rule>
+  /**
+   * If true, a quantified item or list of alternatives that matched can be
+   * retried with fewer repetitions, or with the next alternative, if a
+   * later item fails to match. Otherwise, items match as many times as
+   * they can, and never give anything back, so e.g. `A* A` can't match.
+   */
+  backtrack?: boolean
+  /**
+   * If set, a chain that fails to match after at least this many of its
+   * items matched (or one, if true) matches anyway. It emits what it
+   * matched so far, and then an error node named after the item that
+   * failed, e.g. `⚠️ Expected BlockEnd`.
+   */
+  recover?: boolean | number
 }
 
+/** Sets (or removes) a key in the context table. */
 export interface ContextSetter {
+  /** A capture to check. Without `matches`, it must just be non-empty. */
   if?: MatchIndex
+  /** What `if` (or the whole match) must be for the context to be set. */
   matches?: string | Regex | VarIndex
+  /** The key to set. */
   set: string
+  /** The value to set the key to. If null, the key is removed. */
   to: string | MatchIndex | null
 }
 
+/** Chooses what node to emit for a capture, based on a condition. */
 export interface CaptureCondition {
+  /** What to check, if not the capture itself. */
   if?: MatchIndex
+  /** What the capture (or `if`) must be for the condition to pass. */
   matches: string | Regex | VarIndex | MatchIndex
+  /** Emitted if the condition passed. */
   then?: Node | ReuseNode
+  /** Emitted if the condition failed. Without it, the rule fails instead. */
   else?: Node | ReuseNode
 }
 
+/** A reference to a node (or the node of a rule or state) in the repository. */
 export type ReuseNode = { is: string }
 
-export type Inside = (string | Rule | Include | State)[]
+/** A list of rules, given by name, inline, or by including a list of them. */
+export type Inside = InsideItem[]
+
+/** A rule, state, include, or macro call, or the name of a rule or state. */
+export type InsideItem = string | Rule | Include | State | MacroCall
 
+/** Includes a list of rules from the grammar's `includes`. */
 export type Include = { include: string }
 
 export type StyleTag = keyof FilterOut<typeof cmTags, (tag: cmTag) => cmTag>
@@ -138,7 +385,9 @@ export type ChainItem = `${string}${"?" | "*" | "+" | ""}`
 
 export type Regex = `/${string}/${string}`
 export type LookbehindSource = `${"!" | ""}${Regex}`
+export type ReadWindow = "line" | "paragraph" | "unbounded"
 
-export type MatchIndex = `$${number}`
+/** A capture, by its index or the name of its group, e.g. `$0` or `$label`. */
+export type MatchIndex = `$${string}`
 export type VarIndex = `$var:${string}`
 export type ContextIndex = `$ctx:${string}`
@@ -0,0 +1,81 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type { Rule } from "./rules/rule"
+import type { State } from "./rules/state"
+
+/** Tables that have been built, by the list of rules they were built from. */
+const tables = new WeakMap<(Rule | State)[], DispatchTable>()
+
+/**
+ * A table of which rules in a list could match, by the first character of
+ * the input. Rules are only left out if they can't match that character,
+ * so the rules that are left are still tried in their original order, and
+ * the first rule to match is the same as if every rule had been tried.
+ *
+ * Only ASCII characters are dispatched. For anything else, every rule is a
+ * candidate, as Unicode case folding can make a non-ASCII character match
+ * a case-insensitive rule that starts with an ASCII one, e.g. the Kelvin
+ * sign matching `k`.
+ */
+class DispatchTable {
+  /** The rules that could match each ASCII character, by code point. */
+  private ascii: (Rule | State)[][] = []
+
+  /** @param rules - The list of rules to build the table for. */
+  constructor(private rules: (Rule | State)[]) {
+    const firsts = rules.map(rule => rule.first())
+
+    // code points with the same candidates share a list
+    const lists = new Map<string, (Rule | State)[]>()
+
+    for (let point = 0; point < 128; point++) {
+      const indexes: number[] = []
+      firsts.forEach((first, idx) => {
+        if (!first || first.has(point)) indexes.push(idx)
+      })
+
+      const key = indexes.join()
+      let list = lists.get(key)
+      if (!list) {
+        list = indexes.map(idx => rules[idx])
+        lists.set(key, list)
+      }
+
+      this.ascii[point] = list
+    }
+  }
+
+  /**
+   * Returns the rules that could match at a position in a string.
+   *
+   * @param str - The string being matched.
+   * @param pos - The position the rules would be matched at.
+   */
+  get(str: string, pos: number) {
+    // NaN if past the end of the string, which needs every rule as well
+    const code = str.charCodeAt(pos)
+    return code < 128 ? this.ascii[code] : this.rules
+  }
+}
+
+/**
+ * Returns the rules in a list that could match at a position in a string,
+ * in their original order. The {@link DispatchTable} for the list is built
+ * the first time the list is given.
+ *
+ * @param rules - The list of rules.
+ * @param str - The string being matched.
+ * @param pos - The position the rules would be matched at.
+ */
+export function candidates(rules: (Rule | State)[], str: string, pos: number) {
+  // nested states push a new empty list each time, which isn't worth a table
+  if (!rules.length) return rules
+  let table = tables.get(rules)
+  if (!table) {
+    table = new DispatchTable(rules)
+    tables.set(rules, table)
+  }
+  return table.get(str, pos)
+}
@@ -0,0 +1,97 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import { joinPath } from "../util"
+
+/**
+ * Error thrown when a grammar definition can't be compiled. Records where
+ * in the definition the error was found, and what the offending value was.
+ */
+export class GrammarCompileError extends Error {
+  /** The description of the error, without its location. */
+  declare reason: string
+
+  /**
+   * The key of the repository item the error was found in, which is
+   * namespaced if the item was imported, e.g. `inline.Bold`. If `null`,
+   * the error was found outside of the repository, e.g. in `root`.
+   */
+  declare key: string | null
+
+  /**
+   * The dot separated path to the offending field, relative to the
+   * repository item, e.g. `captures.0.then`. If the error wasn't found in
+   * the repository, this is relative to the grammar itself.
+   */
+  declare path: string
+
+  /** The offending value. */
+  declare value: unknown
+
+  /** True if the full location of the error is known. */
+  declare located: boolean
+
+  /**
+   * @param reason - The description of the error.
+   * @param path - The path to the offending field, relative to wherever
+   *   the error was thrown from. It's completed as the error propagates.
+   * @param value - The offending value.
+   */
+  constructor(reason: string, path: string | number = "", value?: unknown) {
+    super(reason)
+    this.name = "GrammarCompileError"
+    this.reason = reason
+    this.key = null
+    this.path = String(path)
+    this.value = value
+    this.located = false
+  }
+
+  /** The full path to the offending field, from the root of the definition. */
+  get fullPath() {
+    if (this.key === null) return this.path
+    // keys of imported items are namespaced, e.g. `inline.Bold`
+    const namespaces = this.key.split(".")
+    const name = namespaces.pop()!
+    const imports = namespaces.flatMap(ns => ["imports", ns])
+    return joinPath(...imports, "repository", name, this.path)
+  }
+
+  /**
+   * Sets the location of the error, if it hasn't been set already.
+   *
+   * @param key - The key of the repository item the error was found in.
+   * @param path - The path the error's current path is relative to.
+   */
+  locate(key: string | null, path: (string | number)[]) {
+    if (this.located) return this
+    this.key = key
+    this.path = joinPath(...path, this.path)
+    this.located = true
+    this.message = this.fullPath ? `${this.fullPath}: ${this.reason}` : this.reason
+    return this
+  }
+
+  /**
+   * Converts anything that was thrown into a {@link GrammarCompileError},
+   * if it wasn't one already.
+   *
+   * @param err - The thrown value.
+   */
+  static from(err: unknown) {
+    if (err instanceof GrammarCompileError) return err
+    return new GrammarCompileError(err instanceof Error ? err.message : String(err))
+  }
+}
+
+/** Thrown with every {@link GrammarCompileError} found while compiling a grammar. */
+export class GrammarCompileErrors extends Error {
+  /** @param errors - The errors that were found. */
+  constructor(public errors: GrammarCompileError[]) {
+    const plural = errors.length === 1 ? "error" : "errors"
+    const lines = errors.map(err => `  ${err.message}`).join("\n")
+    super(`Grammar failed to compile with ${errors.length} ${plural}:\n${lines}`)
+    this.name = "GrammarCompileErrors"
+  }
+}
@@ -0,0 +1,194 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type * as DF from "./definition"
+import { GrammarCompileError, GrammarCompileErrors } from "./error"
+import { expandMacros } from "./macros"
+
+/**
+ * Resolves the `extends` and `patches` of a grammar definition, and
+ * expands its macro calls, returning a definition that has none of them.
+ * The given definition, and the one it extends, are never mutated.
+ *
+ * @param def - The grammar definition to resolve.
+ */
+export function resolveGrammar(def: DF.Grammar): DF.Grammar {
+  const errors: GrammarCompileError[] = []
+  // patches can add macro calls, so macros are expanded last
+  const resolved = expandMacros(resolve(def, [], errors), [], errors)
+
+  if (!resolved.root) {
+    errors.push(new GrammarCompileError("A root is required", "root").locate(null, []))
+  }
+
+  if (errors.length) throw new GrammarCompileErrors(errors)
+
+  return resolved
+}
+
+/**
+ * Resolves a grammar definition, recursively resolving what it extends.
+ *
+ * @param def - The grammar definition to resolve.
+ * @param path - The path to the definition, e.g. `["extends"]`.
+ * @param errors - The list to add any errors to.
+ */
+function resolve(
+  def: DF.Grammar,
+  path: string[],
+  errors: GrammarCompileError[]
+): DF.Grammar {
+  const { extends: base, patches, ...rest } = def
+
+  if (!base && !patches) return def
+
+  let resolved: DF.Grammar = { ...rest }
+
+  if (base) {
+    const parent = resolve(base, [...path, "extends"], errors)
+    resolved = {
+      ...parent,
+      ...rest,
+      repository: { ...parent.repository, ...rest.repository },
+      includes: { ...parent.includes, ...rest.includes },
+      macros: { ...parent.macros, ...rest.macros },
+      imports: { ...parent.imports, ...rest.imports }
+    }
+  }
+
+  if (patches) {
+    patches.forEach((patch, idx) => {
+      try {
+        applyPatch(resolved, patch)
+      } catch (err) {
+        errors.push(GrammarCompileError.from(err).locate(null, [...path, "patches", idx]))
+      }
+    })
+  }
+
+  return resolved
+}
+
+/**
+ * Applies a patch to a grammar definition. Anything that is changed is
+ * copied first, so that only the given definition object is mutated.
+ *
+ * @param def - The grammar definition to patch.
+ * @param patch - The patch to apply.
+ */
+function applyPatch(def: DF.Grammar, patch: DF.Patch) {
+  // insert
+  if ("insert" in patch) {
+    const list = getList(def, patch.into, "into")
+    const items = [patch.insert].flat()
+
+    if (patch.into.startsWith("includes.") && items.some(i => typeof i !== "string")) {
+      throw new GrammarCompileError("Includes can only contain names", "insert")
+    }
+
+    let idx = list.length
+    if (patch.before !== undefined) idx = findItem(list, patch.before, "before")
+    else if (patch.after !== undefined) idx = findItem(list, patch.after, "after") + 1
+
+    list.splice(idx, 0, ...items)
+    setList(def, patch.into, list)
+  }
+  // replace
+  else if ("replace" in patch) {
+    if (!def.repository?.[patch.replace]) {
+      throw new GrammarCompileError(
+        `Repository item "${patch.replace}" not found`,
+        "replace",
+        patch.replace
+      )
+    }
+    def.repository = { ...def.repository, [patch.replace]: patch.with }
+  }
+  // remove
+  else {
+    const list = getList(def, patch.from, "from")
+    for (const name of [patch.remove].flat()) {
+      list.splice(findItem(list, name, "remove"), 1)
+    }
+    setList(def, patch.from, list)
+  }
+}
+
+/**
+ * Returns a copy of a list of rules in a grammar definition.
+ *
+ * @param def - The grammar definition.
+ * @param target - The path to the list, e.g. `includes.name`.
+ * @param field - The patch field the path was given in, for errors.
+ */
+function getList(def: DF.Grammar, target: string, field: string): DF.InsideItem[] {
+  const [kind, name] = splitTarget(target)
+
+  let list: DF.InsideItem[] | undefined
+
+  if (kind === "root" || kind === "global") list = def[kind]
+  else if (kind === "includes") list = def.includes?.[name]
+  else if (kind === "repository") {
+    const state = def.repository?.[name]
+    if (typeof state === "object" && "begin" in state && Array.isArray(state.inside)) {
+      list = state.inside
+    } else if (state) {
+      throw new GrammarCompileError(`"${name}" isn't a state with an inside list`, field)
+    }
+  }
+
+  if (!list) throw new GrammarCompileError(`List "${target}" not found`, field, target)
+
+  return [...list]
+}
+
+/**
+ * Sets a list of rules in a grammar definition.
+ *
+ * @param def - The grammar definition.
+ * @param target - The path to the list, e.g. `includes.name`.
+ * @param list - The new list.
+ */
+function setList(def: DF.Grammar, target: string, list: DF.InsideItem[]) {
+  const [kind, name] = splitTarget(target)
+
+  if (kind === "root" || kind === "global") {
+    def[kind] = list
+  } else if (kind === "includes") {
+    def.includes = { ...def.includes, [name]: list as string[] }
+  } else {
+    const state = def.repository![name] as DF.State
+    def.repository = { ...def.repository, [name]: { ...state, inside: list } }
+  }
+}
+
+/**
+ * Splits a list path into the kind of list, and the name of the list, if it has one.
+ *
+ * @param target - The path to split.
+ */
+function splitTarget(target: string): [kind: string, name: string] {
+  const idx = target.indexOf(".")
+  if (idx === -1) return [target, ""]
+  return [target.slice(0, idx), target.slice(idx + 1)]
+}
+
+/**
+ * Finds the index of an item in a list of rules, by its name. Includes are
+ * found by the name of what they include.
+ *
+ * @param list - The list to search.
+ * @param name - The name of the item.
+ * @param field - The patch field the name was given in, for errors.
+ */
+function findItem(list: DF.InsideItem[], name: string, field: string) {
+  const idx = list.findIndex(item => {
+    if (typeof item === "string") return item === name
+    return "include" in item && item.include === name
+  })
+  if (idx === -1) {
+    throw new GrammarCompileError(`"${name}" not found in list`, field, name)
+  }
+  return idx
+}
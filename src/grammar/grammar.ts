@@ -2,19 +2,26 @@
  * License, v. 2.0. If a copy of the MPL was not distributed with this
  * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
 
-import { Wrapping } from "../constants"
-import type { VariableTable } from "../types"
+import { MARGIN_AFTER, MARGIN_BEFORE, Wrapping } from "../constants"
+import type { Matcher, MatcherTable, ParseMargins, VariableTable } from "../types"
 import { re } from "../util"
 import type * as DF from "./definition"
+import { candidates } from "./dispatch"
+import { GrammarCompileError, GrammarCompileErrors } from "./error"
+import { resolveGrammar } from "./extend"
 import { Matched } from "./matched"
 import { Node } from "./node"
-import { Repository } from "./repository"
+import { addPatternVariables, Repository } from "./repository"
+import { Chain } from "./rules/chain"
 import type { Rule } from "./rules/rule"
 import { State } from "./rules/state"
 import { GrammarStack, GrammarState } from "./state"
 
 /** Grammar/dumb-tokenizer for a {@link TarnationLanguage}. */
 export class Grammar {
+  /** The grammar definition, with its `extends` and `patches` resolved. */
+  declare def: DF.Grammar
+
   /** Extra language data props, as parsed from the definition. */
   declare data: Record<string, any>
 
@@ -30,11 +37,55 @@ export class Grammar {
   /** Default {@link Node} that is returned if nothing matched. */
   declare default?: Node
 
+  /** {@link Variable}s available to the grammar, including repository patterns. */
+  declare variables: VariableTable
+
+  /** Hand-written {@link Matcher}s available to the grammar, by name. */
+  declare matchers: MatcherTable
+
+  /**
+   * The farthest behind the position a rule is matched at that any rule's
+   * lookbehind can look, in UTF-16 code units. `Infinity` if a lookbehind
+   * is unbounded. The distance of each rule is given by its `lookbehindDistance`.
+   */
+  declare lookbehindDistance: number
+
+  /**
+   * How many characters before and after the position being parsed the
+   * grammar needs, so that every rule can see everything it checks. If a
+   * rule can look an unbounded distance, the default margins are used for
+   * it, so its patterns can only see that far. This includes every chain
+   * with `skip`, as skipping can advance by any amount.
+   */
+  declare margins: ParseMargins
+
   /**
    * @param def - The definition grammar to compile.
    * @param variables - {@link Variable}s to pass to the compiled grammar.
+   * @param matchers - {@link Matcher}s to pass to the compiled grammar.
    */
-  constructor(public def: DF.Grammar, public variables: VariableTable = {}) {
+  constructor(
+    def: DF.Grammar,
+    variables: VariableTable = {},
+    matchers: MatcherTable = {}
+  ) {
+    // resolve inheritance first, as everything else uses the final definition
+    def = resolveGrammar(def)
+    this.def = def
+
+    // populate variable table with repository patterns
+    // (copied, so that the given table isn't polluted with them)
+    variables = { ...variables }
+    this.variables = variables
+    this.matchers = matchers
+    if (def.repository) addPatternVariables(variables, def.repository)
+
+    // setup repository, add rules, etc.
+
+    const repo = new Repository(this, variables, def.ignoreCase)
+
+    this.repository = repo
+
     // process language data
 
     this.data = {}
@@ -43,35 +94,91 @@ export class Grammar {
     if (def.closeBrackets) this.data.closeBrackets = def.closeBrackets
     if (def.wordChars) this.data.wordChars = def.wordChars
     if (def.indentOnInput) {
-      const regex = re(def.indentOnInput)
-      if (!regex) throw new Error(`Invalid indentOnInput: ${def.indentOnInput}`)
-      this.data.indentOnInput = regex
+      repo.attempt("indentOnInput", () => {
+        const regex = re(def.indentOnInput!)
+        if (!regex) throw new GrammarCompileError("Invalid regex", "", def.indentOnInput)
+        this.data.indentOnInput = regex
+      })
     }
 
-    // populate variable table with repository patterns
+    if (def.default) this.default = repo.attempt("default", () => repo.add(def.default!))
+
     if (def.repository) {
-      for (const name in def.repository) {
-        const value = def.repository[name]
-        if (typeof value === "string") variables[name] = value
-        else if ("match" in value) variables[name] = value.match
-      }
+      for (const name in def.repository) repo.attempt([], () => repo.get(name))
     }
 
-    // setup repository, add rules, etc.
+    this.root = repo.within("root", () => repo.inside(def.root!))
 
-    this.repository = new Repository(this, variables, def.ignoreCase)
+    if (def.global) this.global = repo.within("global", () => repo.inside(def.global!))
 
-    if (def.default) this.default = this.repository.add(def.default)
+    if (repo.errors.length) throw new GrammarCompileErrors(repo.errors)
 
-    if (def.repository) {
-      for (const name in def.repository) {
-        this.repository.add(def.repository[name], name)
+    this.analyze()
+  }
+
+  /**
+   * Returns the {@link Matcher} with the given name, either from the
+   * grammar's matchers or from a variable holding one.
+   *
+   * @param name - The name of the matcher.
+   */
+  matcher(name: string): Matcher | undefined {
+    if (this.matchers[name]) return this.matchers[name]
+    const variable = this.variables[name]
+    if (typeof variable === "object" && "match" in variable) return variable
+  }
+
+  /**
+   * Finds how far around a position the compiled rules of the grammar can
+   * look, setting `lookbehindDistance` and `margins`.
+   */
+  analyze() {
+    let distance = 0
+    let before = 0
+    let after = 0
+
+    for (const rule of this.rules()) {
+      const { behind, ahead } = rule.reach()
+      distance = Math.max(distance, rule.lookbehindDistance ?? 0)
+      before = Math.max(before, Number.isFinite(behind) ? behind : MARGIN_BEFORE)
+      // rules that read their own window don't need anything more after
+      if (rule.read) continue
+      after = Math.max(after, Number.isFinite(ahead) ? ahead : MARGIN_AFTER)
+    }
+
+    this.lookbehindDistance = distance
+    this.margins = { before, after }
+  }
+
+  /**
+   * Returns every {@link Rule} that can be reached from the grammar's root
+   * and global lists, including the rules of states and chains, and the
+   * rules chains skip.
+   */
+  rules() {
+    const rules = new Set<Rule>()
+    const visited = new Set<Rule | State>()
+
+    const visit = (obj: Rule | State) => {
+      if (visited.has(obj)) return
+      visited.add(obj)
+      if (obj instanceof State) {
+        visit(obj.begin)
+        visit(obj.end)
+        if (Array.isArray(obj.inside)) obj.inside.forEach(visit)
+      } else {
+        rules.add(obj)
+        if (obj instanceof Chain) {
+          for (const step of obj.steps()) step.rules.forEach(([rule]) => visit(rule))
+          obj.skipRules().forEach(visit)
+        }
       }
     }
 
-    this.root = this.repository.inside(def.root)
+    this.root.forEach(visit)
+    this.global?.forEach(visit)
 
-    if (def.global) this.global = this.repository.inside(def.global)
+    return Array.from(rules)
   }
 
   /** Returns a {@link GrammarState} setup for this grammar's default state. */
@@ -91,18 +198,28 @@ export class Grammar {
    * @param pos - The position to start matching at.
    * @param offset - The offset to apply to the resulting {@link Matched}'s
    *   `from` position.
+   * @param read - Reads a larger window of the input, starting where `str`
+   *   does, for rules that ask for one. Without it, every rule is given `str`.
    */
-  match(state: GrammarState, str: string, pos: number, offset = 0) {
+  match(
+    state: GrammarState,
+    str: string,
+    pos: number,
+    offset = 0,
+    read?: (window: DF.ReadWindow) => string
+  ) {
     // check stack end state first before running match
     if (state.stack.end) {
       if (state.stack.end instanceof State) {
-        let result = state.stack.end.close(state, str, pos)
+        const input = windowed(state.stack.end.end, str, read)
+        let result = state.stack.end.close(state, input, pos)
         if (result) {
           if (offset !== pos) result.offset(offset)
           return result
         }
       } else {
-        let result = state.stack.end.match(state, str, pos)
+        const input = windowed(state.stack.end, str, read)
+        let result = state.stack.end.match(state, input, pos)
         if (result) {
           result = result.wrap(state.stack.node, Wrapping.END)
           result.state.stack.pop()
@@ -112,11 +229,11 @@ export class Grammar {
       }
     }
 
-    // normal matching
-    const rules = state.stack.rules
+    // normal matching, skipping rules that can't match the current character
+    const rules = candidates(state.stack.rules, str, pos)
     for (let i = 0; i < rules.length; i++) {
       const rule = rules[i]
-      const result = rule.match(state, str, pos)
+      const result = rule.match(state, windowed(rule, str, read), pos)
       if (result) {
         if (offset !== pos) result.offset(offset)
         return result
@@ -125,9 +242,10 @@ export class Grammar {
 
     // global matching
     if (this.global) {
-      for (let i = 0; i < this.global.length; i++) {
-        const rule = this.global[i]
-        const result = rule.match(state, str, pos)
+      const global = candidates(this.global, str, pos)
+      for (let i = 0; i < global.length; i++) {
+        const rule = global[i]
+        const result = rule.match(state, windowed(rule, str, read), pos)
         if (result) {
           if (offset !== pos) result.offset(offset)
           return result
@@ -143,3 +261,20 @@ export class Grammar {
     return null
   }
 }
+
+/**
+ * Returns the string a rule or state should be matched against, which is a
+ * larger window of the input if the rule asked for one.
+ *
+ * @param rule - The rule or state. States use their `begin` rule.
+ * @param str - The string given to the grammar.
+ * @param read - Reads a window of the input, if the parser can.
+ */
+function windowed(
+  rule: Rule | State,
+  str: string,
+  read?: (window: DF.ReadWindow) => string
+) {
+  const window = rule instanceof State ? rule.begin.read : rule.read
+  return window && read ? read(window) : str
+}
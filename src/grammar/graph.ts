@@ -0,0 +1,303 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import { removeUndefined } from "../util"
+import type { Grammar } from "./grammar"
+import { Node } from "./node"
+import type { InsideSource } from "./repository"
+import { Chain } from "./rules/chain"
+import { LookupRule } from "./rules/lookup"
+import { PatternRule } from "./rules/pattern"
+import type { Rule } from "./rules/rule"
+import { State } from "./rules/state"
+
+/**
+ * The graph of how the rules, states, nodes, and includes of a compiled
+ * {@link Grammar} refer to each other. It's plain data, so it can be stored
+ * as JSON, or printed for Graphviz with {@link graphToDot}.
+ */
+export interface GrammarGraph {
+  /** Every rule, state, node, include, and list of rules in the grammar. */
+  nodes: GrammarGraphNode[]
+
+  /** References between the nodes of the graph. */
+  edges: GrammarGraphEdge[]
+}
+
+/** An object in a {@link GrammarGraph}. */
+export interface GrammarGraphNode {
+  /** A unique ID for the object. Usually its name. */
+  id: string
+
+  /** The name of the object, which may be shared by other objects. */
+  name: string
+
+  /** The kind of object. `list` is used for the grammar's `root` and `global` lists. */
+  kind: "pattern" | "lookup" | "chain" | "state" | "node" | "include" | "list"
+
+  /** The name emitted into the syntax tree, if anything is. */
+  emit?: string
+}
+
+/** A reference from one object to another in a {@link GrammarGraph}. */
+export interface GrammarGraphEdge {
+  /** The ID of the referring object. */
+  from: string
+
+  /** The ID of the referenced object. */
+  to: string
+
+  /**
+   * How the object is referenced.
+   *
+   * - `begin` / `end`: The rules that enter and exit a state.
+   * - `inside`: An item in the `inside` list of a state, or in a `list`.
+   * - `include`: An item of an include.
+   * - `chain`: A rule matched by a step of a chain.
+   * - `capture`: A node emitted for a capture, or by a capture condition.
+   */
+  kind: "begin" | "end" | "inside" | "include" | "chain" | "capture"
+
+  /**
+   * Extra detail, such as the index of a capture or the position and
+   * quantifier of a chain step, e.g. `2?` or `3 |*`, or `skip` for a rule
+   * that a chain skips.
+   */
+  label?: string
+}
+
+/**
+ * Walks a compiled {@link Grammar}, returning the graph of how its rules,
+ * states, nodes, and includes refer to each other. Every repository item
+ * is included, even if it can't be reached from the grammar's roots.
+ *
+ * @param grammar - The compiled grammar to walk.
+ */
+export function grammarGraph(grammar: Grammar): GrammarGraph {
+  const builder = new GraphBuilder(grammar)
+
+  builder.list("root", grammar.root)
+  if (grammar.global) builder.list("global", grammar.global)
+  if (grammar.default) builder.object(grammar.default)
+
+  for (const [, obj] of grammar.repository.entries()) builder.object(obj)
+
+  return { nodes: builder.nodes, edges: builder.edges }
+}
+
+/** Builds a {@link GrammarGraph} by recursively visiting objects. */
+class GraphBuilder {
+  /** The nodes of the graph so far. */
+  nodes: GrammarGraphNode[] = []
+
+  /** The edges of the graph so far. */
+  edges: GrammarGraphEdge[] = []
+
+  /** IDs of objects that have been visited. */
+  private ids = new Map<Node | Rule | State, string>()
+
+  /** IDs of includes that have been visited, by name. */
+  private includes = new Map<string, string>()
+
+  /** IDs that have been used, as names aren't always unique. */
+  private used = new Set<string>()
+
+  /** @param grammar - The grammar being walked. */
+  constructor(private grammar: Grammar) {}
+
+  /**
+   * Adds a `root` or `global` list to the graph.
+   *
+   * @param name - The name of the list.
+   * @param list - The compiled list.
+   */
+  list(name: string, list: (Rule | State)[]) {
+    const id = this.add(`<${name}>`, { name, kind: "list" })
+    this.inside(id, list)
+  }
+
+  /**
+   * Adds an object, and everything it refers to, to the graph. Returns the
+   * object's ID.
+   *
+   * @param obj - The object to add.
+   */
+  object(obj: Node | Rule | State): string {
+    if (this.ids.has(obj)) return this.ids.get(obj)!
+
+    const node = obj instanceof Node ? obj : obj.node
+    const emit = node === Node.None ? undefined : node.type.name
+
+    // prettier-ignore
+    const kind =
+      obj instanceof Node        ? "node"    :
+      obj instanceof State       ? "state"   :
+      obj instanceof Chain       ? "chain"   :
+      obj instanceof LookupRule  ? "lookup"  :
+      obj instanceof PatternRule ? "pattern" :
+      null
+
+    if (!kind) throw new Error("Unknown kind of repository object")
+
+    const id = this.add(obj.name, { name: obj.name, kind, emit })
+
+    // stored first, as objects can refer to themselves
+    this.ids.set(obj, id)
+
+    if (obj instanceof State) {
+      this.edge(id, this.object(obj.begin), "begin")
+      this.edge(id, this.object(obj.end), "end")
+      if (obj.inside instanceof Node) this.edge(id, this.object(obj.inside), "inside")
+      else if (obj.inside) this.inside(id, obj.inside)
+    } else if (!(obj instanceof Node)) {
+      if (obj instanceof Chain) {
+        obj.steps().forEach(({ rules, combinator }, idx) => {
+          for (const [rule, quantifier] of rules) {
+            const label = `${idx}${quantifier}${combinator ? ` ${combinator}` : ""}`
+            this.edge(id, this.object(rule), "chain", label)
+          }
+        })
+        for (const rule of obj.skipRules()) {
+          this.edge(id, this.object(rule), "chain", "skip")
+        }
+      }
+
+      obj.captures?.forEach((capture, idx) => {
+        if (capture instanceof Node) {
+          this.edge(id, this.object(capture), "capture", `${idx}`)
+        } else if (capture) {
+          if (capture.then) {
+            this.edge(id, this.object(capture.then), "capture", `${idx} then`)
+          }
+          if (capture.else) {
+            this.edge(id, this.object(capture.else), "capture", `${idx} else`)
+          }
+        }
+      })
+    }
+
+    return id
+  }
+
+  /**
+   * Adds the edges for a compiled `inside` list. If the repository knows
+   * which includes the list used, the includes are added as well.
+   *
+   * @param id - The ID of the object the list belongs to.
+   * @param list - The compiled list.
+   */
+  private inside(id: string, list: (Rule | State)[]) {
+    const sources: InsideSource[] = this.grammar.repository.sources.get(list) ?? list
+    sources.forEach((source, idx) => {
+      const to = "include" in source ? this.include(source.include) : this.object(source)
+      this.edge(id, to, "inside", `${idx}`)
+    })
+  }
+
+  /**
+   * Adds an include, and the items it includes, to the graph. Returns the
+   * include's ID.
+   *
+   * @param name - The name of the include.
+   */
+  private include(name: string) {
+    if (this.includes.has(name)) return this.includes.get(name)!
+
+    const id = this.add(`include:${name}`, { name, kind: "include" })
+    this.includes.set(name, id)
+
+    this.grammar.repository.include(name).forEach((obj, idx) => {
+      this.edge(id, this.object(obj), "include", `${idx}`)
+    })
+
+    return id
+  }
+
+  /**
+   * Adds a node to the graph, returning its ID.
+   *
+   * @param id - The preferred ID of the node. If it's taken, it's suffixed
+   *   with a number.
+   * @param node - The node, without its ID.
+   */
+  private add(id: string, node: Omit<GrammarGraphNode, "id">) {
+    let unique = id
+    for (let i = 2; this.used.has(unique); i++) unique = `${id}#${i}`
+    this.used.add(unique)
+    this.nodes.push(removeUndefined({ id: unique, ...node }))
+    return unique
+  }
+
+  /**
+   * Adds an edge to the graph.
+   *
+   * @param from - The ID of the referring object.
+   * @param to - The ID of the referenced object.
+   * @param kind - The kind of reference.
+   * @param label - Extra detail for the reference.
+   */
+  private edge(from: string, to: string, kind: GrammarGraphEdge["kind"], label?: string) {
+    this.edges.push(label === undefined ? { from, to, kind } : { from, to, kind, label })
+  }
+}
+
+/** The Graphviz shapes used for each kind of graph node. */
+const DOT_SHAPES: Record<GrammarGraphNode["kind"], string> = {
+  pattern: "ellipse",
+  lookup: "ellipse",
+  chain: "hexagon",
+  state: "box",
+  node: "plaintext",
+  include: "folder",
+  list: "doubleoctagon"
+}
+
+/** The Graphviz edge styles used for each kind of graph edge. */
+const DOT_STYLES: Record<GrammarGraphEdge["kind"], string> = {
+  begin: "bold",
+  end: "bold",
+  inside: "solid",
+  include: "solid",
+  chain: "dashed",
+  capture: "dotted"
+}
+
+/**
+ * Prints a {@link GrammarGraph} in the Graphviz DOT language.
+ *
+ * @param graph - The graph to print.
+ * @param name - The name of the printed graph. Defaults to `grammar`.
+ */
+export function graphToDot(graph: GrammarGraph, name = "grammar") {
+  const lines = [`digraph ${quote(name)} {`, "  rankdir=LR"]
+
+  for (const node of graph.nodes) {
+    const label =
+      node.emit && node.emit !== node.name ? `${node.name}\n(${node.emit})` : node.name
+    lines.push(
+      `  ${quote(node.id)} [label=${quote(label)}, shape=${DOT_SHAPES[node.kind]}]`
+    )
+  }
+
+  for (const edge of graph.edges) {
+    const label = edge.label ? `${edge.kind} ${edge.label}` : edge.kind
+    const style = DOT_STYLES[edge.kind]
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(label)}, style=${style}]`
+    )
+  }
+
+  lines.push("}", "")
+
+  return lines.join("\n")
+}
+
+/**
+ * Quotes a string as a DOT identifier.
+ *
+ * @param str - The string to quote.
+ */
+function quote(str: string) {
+  return `"${str.replace(/["\\]/g, "\\$&").replace(/\n/g, "\\n")}"`
+}
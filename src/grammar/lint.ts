@@ -0,0 +1,437 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import { MARGIN_AFTER, MARGIN_BEFORE } from "../constants"
+import type { GrammarLintDiagnostic, ParserConfiguration } from "../types"
+import { isRegExpString, joinPath, re } from "../util"
+import type * as DF from "./definition"
+import { resolveGrammar } from "./extend"
+import { lookbehindDistance, patternReach } from "./matchers/analyze"
+
+/**
+ * Looks for parts of a grammar definition that are valid, but probably
+ * mistakes. This includes:
+ *
+ * - Repository items that can't be reached from `root`, `global`, or `default`.
+ * - Rules that can never match, because an earlier rule always matches first.
+ * - `includes` that are never included.
+ * - Autocomplete names that have no handler in the given configuration.
+ * - Lookbehinds, lookaheads, `rematch` patterns, and chains with `skip` that
+ *   can look an unbounded distance, and so only see as far as the default margins.
+ *
+ * The definition is assumed to be structurally valid, see
+ * `validateGrammar`. If it extends another grammar, the resolved grammar
+ * is what is checked.
+ *
+ * @param def - The grammar definition to check.
+ * @param config - The configuration the grammar will be used with. If
+ *   given, autocomplete names are checked against its handlers.
+ */
+export function lintGrammar(
+  def: DF.Grammar,
+  config?: ParserConfiguration
+): GrammarLintDiagnostic[] {
+  const linter = new Linter(resolveGrammar(def), config)
+  linter.lint()
+  return linter.diagnostics
+}
+
+/** A rule or state in an `inside` list, along with where it came from. */
+interface Entry {
+  /** The path to the item in the definition. */
+  path: string
+  /** The name of the item, if it was referenced by name. */
+  name?: string
+  /** The definition of the item, if it could be found. */
+  item?: DF.Rule | DF.State
+}
+
+/** Walks a grammar definition, starting at its roots, collecting any problems found. */
+class Linter {
+  /** The list of problems found so far. */
+  diagnostics: GrammarLintDiagnostic[] = []
+
+  /** Names of repository items that have been reached. */
+  private reachable = new Set<string>()
+
+  /** Names of `includes` that have been included. */
+  private included = new Set<string>()
+
+  /** Names of autocomplete handlers, or null if they shouldn't be checked. */
+  private handlers: Set<string> | null = null
+
+  /**
+   * @param def - The grammar definition to check.
+   * @param config - The configuration the grammar will be used with.
+   */
+  constructor(private def: DF.Grammar, config?: ParserConfiguration) {
+    if (config?.autocomplete) {
+      this.handlers = new Set()
+      for (const key in config.autocomplete) {
+        if (key === "*" || typeof config.autocomplete[key] !== "function") continue
+        for (const name of key.trim().split(/\s+/)) this.handlers.add(name)
+      }
+    }
+  }
+
+  /**
+   * Records a problem, unless the exact same problem was already recorded.
+   *
+   * @param kind - The kind of problem.
+   * @param path - The path to the offending value.
+   * @param message - A description of the problem.
+   */
+  private report(kind: GrammarLintDiagnostic["kind"], path: string, message: string) {
+    if (this.diagnostics.some(d => d.path === path && d.message === message)) return
+    this.diagnostics.push({ kind, path, message })
+  }
+
+  /** Walks the entire grammar, and then reports anything that wasn't reached. */
+  lint() {
+    const { def } = this
+
+    if (def.default) this.node(def.default, "default")
+    if (def.global) this.inside(def.global, "global")
+    this.inside(def.root!, "root")
+
+    for (const name in def.repository) {
+      if (!this.reachable.has(name)) {
+        this.report(
+          "unreachable",
+          joinPath("repository", name),
+          `"${name}" can't be reached from the root of the grammar`
+        )
+      }
+    }
+
+    for (const name in def.includes) {
+      if (!this.included.has(name)) {
+        this.report(
+          "unused-include",
+          joinPath("includes", name),
+          `"${name}" is never included`
+        )
+      }
+    }
+  }
+
+  /**
+   * Marks a repository item as reachable, and walks it if it hasn't been
+   * walked already.
+   *
+   * @param name - The name of the repository item.
+   */
+  private visit(name: string) {
+    if (this.reachable.has(name)) return
+    const item = this.def.repository?.[name]
+    if (item === undefined) return
+    this.reachable.add(name)
+    this.item(item, joinPath("repository", name))
+  }
+
+  /** Walks any repository item. */
+  private item(item: DF.RepositoryItem, path: string) {
+    if (typeof item === "string") this.variables(item)
+    // macro calls are expanded when the definition is resolved
+    else if ("macro" in item) return
+    else if ("is" in item) this.visit(item.is)
+    else if ("begin" in item) this.state(item, path)
+    else if (isRule(item)) this.rule(item, path)
+    else this.node(item, path)
+  }
+
+  /** Walks a node, which can only be checked for its autocomplete name. */
+  private node(node: DF.Node | DF.ReuseNode, path: string) {
+    if ("is" in node) {
+      this.visit(node.is)
+      return
+    }
+
+    if (!this.handlers || !node.autocomplete) return
+
+    const name = node.autocomplete === true ? node.type : node.autocomplete
+    if (name && !this.handlers.has(name)) {
+      this.report(
+        "missing-handler",
+        joinPath(path, "autocomplete"),
+        `No autocomplete handler for "${name}"`
+      )
+    }
+  }
+
+  /** Walks a state. */
+  private state(state: DF.State, path: string) {
+    this.node(state, path)
+
+    for (const key of ["begin", "end"] as const) {
+      const rule = state[key]
+      if (typeof rule === "string") this.visit(rule)
+      else this.rule(rule, joinPath(path, key))
+    }
+
+    const { inside } = state
+    if (Array.isArray(inside)) this.inside(inside, joinPath(path, "inside"))
+    else if (typeof inside === "object") this.node(inside, joinPath(path, "inside"))
+  }
+
+  /** Walks a rule. */
+  private rule(rule: DF.Rule, path: string) {
+    this.node(rule, path)
+
+    if (rule.captures) {
+      for (const key in rule.captures) {
+        const capture = rule.captures[key]
+        const capturePath = joinPath(path, "captures", key)
+        if ("matches" in capture) {
+          if (capture.then) this.node(capture.then, joinPath(capturePath, "then"))
+          if (capture.else) this.node(capture.else, joinPath(capturePath, "else"))
+        } else {
+          this.node(capture, capturePath)
+        }
+      }
+    }
+
+    if (rule.lookahead) this.variables(rule.lookahead)
+
+    this.unbounded(rule, path)
+
+    if ("match" in rule) {
+      for (const pattern of [rule.match].flat()) {
+        if (typeof pattern === "string") this.variables(pattern)
+      }
+    } else if ("chain" in rule) {
+      for (const item of rule.chain) {
+        // {m,n} quantifiers are removed first, so that they aren't read as names
+        const names = item.replace(/\{[^}]*\}?/g, " ").match(/[^\s()|?*+&!]+/g)
+        for (const name of names ?? []) this.visit(name)
+      }
+      const skips = rule.skip === undefined ? [] : [rule.skip].flat()
+      skips.forEach((skip, idx) => {
+        const skipPath = Array.isArray(rule.skip)
+          ? joinPath(path, "skip", idx)
+          : joinPath(path, "skip")
+        if (typeof skip !== "string") this.rule(skip, skipPath)
+        else if (isRegExpString(skip)) this.variables(skip)
+        else this.visit(skip)
+      })
+    }
+  }
+
+  /**
+   * Reports the patterns of a rule that can look an unbounded distance
+   * away from the position being parsed. The parser only gives the grammar
+   * the default margins around the position for these, so the patterns
+   * can't see anything further than that.
+   */
+  private unbounded(rule: DF.Rule, path: string) {
+    const lookbehind = regexp(rule.lookbehind)
+    if (lookbehind && lookbehindDistance(lookbehind) === Infinity) {
+      this.report(
+        "unbounded",
+        joinPath(path, "lookbehind"),
+        `This lookbehind can look an unbounded distance behind, but only ${MARGIN_BEFORE} characters will be visible`
+      )
+    }
+
+    // rules that read their own window can see as far ahead as they need
+    if (rule.read) return
+
+    const lookahead = regexp(rule.lookahead)
+    if (lookahead && patternReach(lookahead).ahead === Infinity) {
+      this.report(
+        "unbounded",
+        joinPath(path, "lookahead"),
+        `This lookahead can look an unbounded distance ahead, but only ${MARGIN_AFTER} characters will be visible`
+      )
+    }
+
+    // skipping is greedy, so a chain that skips can be any length
+    if ("chain" in rule && rule.skip !== undefined) {
+      this.report(
+        "unbounded",
+        joinPath(path, "skip"),
+        `This chain skips text, so it can look an unbounded distance ahead, but only ${MARGIN_AFTER} characters will be visible`
+      )
+    }
+
+    if (!rule.rematch || !("match" in rule)) return
+
+    const patterns = [rule.match].flat()
+    patterns.forEach((pattern, idx) => {
+      const regex = regexp(pattern)
+      if (!regex) return
+      const { behind, ahead } = patternReach(regex)
+      if (behind !== Infinity && ahead !== Infinity) return
+      const matchPath = Array.isArray(rule.match)
+        ? joinPath(path, "match", idx)
+        : joinPath(path, "match")
+      this.report(
+        "unbounded",
+        matchPath,
+        `This pattern is rematched, but can look an unbounded distance, so only ${MARGIN_BEFORE} characters behind and ${MARGIN_AFTER} characters ahead will be visible`
+      )
+    })
+  }
+
+  /** Visits every repository item used as a `@variable` in a pattern. */
+  private variables(pattern: string) {
+    for (const [, name] of pattern.matchAll(/@(\w+)/g)) this.visit(name)
+  }
+
+  /**
+   * Walks the items of an include, and returns them as a list of entries.
+   *
+   * @param name - The name of the include.
+   */
+  private include(name: string) {
+    const names = this.def.includes?.[name]
+    if (!names) return []
+    const path = joinPath("includes", name)
+    const entries = names.map((item, idx) => this.entry(item, joinPath(path, idx)))
+    if (!this.included.has(name)) {
+      this.included.add(name)
+      this.shadowed(entries)
+    }
+    return entries
+  }
+
+  /** Walks a list of rules, states, and includes. */
+  private inside(inside: DF.Inside, path: string) {
+    const entries: Entry[] = []
+    inside.forEach((item, idx) => {
+      const itemPath = joinPath(path, idx)
+      if (typeof item === "string") entries.push(this.entry(item, itemPath))
+      else if ("include" in item) entries.push(...this.include(item.include))
+      else if ("macro" in item) return
+      else if ("begin" in item) {
+        this.state(item, itemPath)
+        entries.push({ path: itemPath, item })
+      } else {
+        this.rule(item, itemPath)
+        entries.push({ path: itemPath, item })
+      }
+    })
+    this.shadowed(entries)
+  }
+
+  /**
+   * Visits a repository item referenced by name, and returns it as an entry.
+   *
+   * @param name - The name of the repository item.
+   * @param path - The path to the reference.
+   */
+  private entry(name: string, path: string): Entry {
+    this.visit(name)
+    const item = this.def.repository?.[name]
+    if (typeof item === "string") return { path, name, item: { match: item } }
+    if (!item || "is" in item) return { path, name }
+    if ("begin" in item || isRule(item)) return { path, name, item }
+    return { path, name }
+  }
+
+  /**
+   * Reports every entry in a list that can't ever match, because an
+   * earlier entry will always match instead.
+   *
+   * @param entries - The list of entries to check, in order.
+   */
+  private shadowed(entries: Entry[]) {
+    for (let i = 1; i < entries.length; i++) {
+      const later = entries[i]
+      for (let j = 0; j < i; j++) {
+        const earlier = entries[j]
+        if (later.name && later.name === earlier.name) {
+          this.report("shadowed", later.path, `"${later.name}" is already used earlier`)
+          break
+        }
+        if (this.covers(earlier.item, later.item)) {
+          const name = later.name ? `"${later.name}"` : "This rule"
+          const by = earlier.name ? `"${earlier.name}"` : earlier.path
+          this.report(
+            "shadowed",
+            later.path,
+            `${name} can never match, because ${by} always matches first`
+          )
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns true if the `earlier` rule or state will always match whenever
+   * the `later` one would.
+   *
+   * @param earlier - The rule or state that is checked first.
+   * @param later - The rule or state that is checked after.
+   */
+  private covers(earlier?: DF.Rule | DF.State, later?: DF.Rule | DF.State) {
+    const earlierRule = this.beginRule(earlier)
+    const laterRule = this.beginRule(later)
+
+    if (!earlierRule || !laterRule) return false
+    if (!("match" in earlierRule) || !("match" in laterRule)) return false
+    if (earlier && "begin" in earlier && earlier.inside === "loose") return false
+    if (!unconditional(earlierRule)) return false
+
+    const patterns = [earlierRule.match].flat()
+
+    return [laterRule.match].flat().every(later => {
+      return patterns.some(earlier => {
+        if (typeof earlier !== "string" || typeof later !== "string") return false
+        if (earlier === later) return true
+        if (isRegExpString(earlier) || isRegExpString(later)) return false
+        if (earlier.includes("@") || later.includes("@") || !earlier) return false
+        return this.def.ignoreCase
+          ? later.toLowerCase().startsWith(earlier.toLowerCase())
+          : later.startsWith(earlier)
+      })
+    })
+  }
+
+  /**
+   * Gets the rule that is actually matched for a rule or state, which is
+   * the `begin` rule for states.
+   *
+   * @param item - The rule or state.
+   */
+  private beginRule(item?: DF.Rule | DF.State): DF.Rule | undefined {
+    if (!item || !("begin" in item)) return item
+    if (typeof item.begin !== "string") return item.begin
+    const rule = this.def.repository?.[item.begin]
+    if (typeof rule === "object" && isRule(rule)) return rule
+  }
+}
+
+/**
+ * Returns the `RegExp` for a pattern, if it can be checked without
+ * compiling the grammar, i.e. it's a regular expression that doesn't use
+ * any `@variables`.
+ *
+ * @param pattern - The pattern to get the `RegExp` of.
+ */
+function regexp(pattern?: string | DF.MatcherReference) {
+  if (typeof pattern !== "string" || !isRegExpString(pattern)) return null
+  if (pattern.includes("@")) return null
+  return re(pattern)
+}
+
+/** Returns true if the given object looks like a rule definition. */
+function isRule(obj: object): obj is DF.Rule {
+  return "lookup" in obj || "match" in obj || "chain" in obj
+}
+
+/**
+ * Returns true if a rule matching its pattern can't fail for some other
+ * reason, like a lookahead or capture condition.
+ */
+function unconditional(rule: DF.Rule) {
+  if (rule.lookbehind || rule.lookahead) return false
+  if (rule.captures) {
+    for (const key in rule.captures) {
+      if ("matches" in rule.captures[key]) return false
+    }
+  }
+  return true
+}
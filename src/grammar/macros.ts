@@ -0,0 +1,208 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import { isRegExpString } from "../util"
+import type * as DF from "./definition"
+import { GrammarCompileError } from "./error"
+import { expandVariables } from "./variables"
+
+/**
+ * Expands every macro call in a grammar definition, and in the grammars it
+ * imports, which use their own macros. Parts of the definition without any
+ * macro calls are kept as they are, and nothing is mutated.
+ *
+ * @param def - The grammar definition to expand.
+ * @param path - The path to the definition, e.g. `["imports", "inline"]`.
+ * @param errors - The list to add any errors to.
+ */
+export function expandMacros<T extends DF.GrammarImport>(
+  def: T,
+  path: string[],
+  errors: GrammarCompileError[]
+): T {
+  const { macros, imports, ...rest } = def
+
+  const expander = new MacroExpander(macros ?? {}, errors)
+  const expanded = { ...(expander.value(rest, path) as typeof rest) } as T
+
+  if (macros) expanded.macros = macros
+
+  if (imports) {
+    expanded.imports = {}
+    for (const namespace in imports) {
+      const importPath = [...path, "imports", namespace]
+      expanded.imports[namespace] = expandMacros(imports[namespace], importPath, errors)
+    }
+  }
+
+  return expanded
+}
+
+/** Walks a grammar definition, replacing macro calls with what they expand to. */
+class MacroExpander {
+  /** The names of the macros being expanded, to find macros that call themselves. */
+  private stack: string[] = []
+
+  /**
+   * @param macros - The macros that can be called, by name.
+   * @param errors - The list to add any errors to.
+   */
+  constructor(
+    private macros: Record<string, DF.Macro>,
+    private errors: GrammarCompileError[]
+  ) {}
+
+  /**
+   * Expands the macro calls in a value. If there aren't any, the value
+   * itself is returned.
+   *
+   * @param value - The value to expand.
+   * @param path - The path to the value, for errors.
+   */
+  value(value: unknown, path: (string | number)[]): unknown {
+    if (Array.isArray(value)) return this.list(value, path)
+    if (typeof value !== "object" || value === null) return value
+    if (isMacroCall(value)) return this.call(value, path)
+
+    const obj = value as Record<string, unknown>
+    const result: Record<string, unknown> = {}
+    let changed = false
+
+    for (const key in obj) {
+      result[key] = this.value(obj[key], [...path, key])
+      if (result[key] !== obj[key]) changed = true
+    }
+
+    return changed ? result : value
+  }
+
+  /**
+   * Expands the macro calls in a list. Calls that expand to a list are
+   * replaced with the items of that list.
+   *
+   * @param list - The list to expand.
+   * @param path - The path to the list, for errors.
+   */
+  private list(list: unknown[], path: (string | number)[]) {
+    const result: unknown[] = []
+    let changed = false
+
+    list.forEach((item, idx) => {
+      const expanded = this.value(item, [...path, idx])
+      if (expanded !== item) changed = true
+      if (isMacroCall(item) && Array.isArray(expanded)) result.push(...expanded)
+      else result.push(expanded)
+    })
+
+    return changed ? result : list
+  }
+
+  /**
+   * Expands a macro call. If the call can't be expanded, the error is
+   * recorded and the call is returned as it is.
+   *
+   * @param call - The macro call.
+   * @param path - The path to the call, for errors.
+   */
+  private call(call: DF.MacroCall, path: (string | number)[]) {
+    const { macro: name, args = [] } = call
+    try {
+      if (typeof name !== "string") {
+        throw new GrammarCompileError("Expected the name of a macro", "macro", name)
+      }
+
+      if (!Object.prototype.hasOwnProperty.call(this.macros, name)) {
+        throw new GrammarCompileError(`Macro "${name}" not found`, "macro", name)
+      }
+
+      if (this.stack.includes(name)) {
+        const cycle = [...this.stack.slice(this.stack.indexOf(name)), name].join(" -> ")
+        throw new GrammarCompileError(
+          `Macro "${name}" calls itself (${cycle})`,
+          "macro",
+          name
+        )
+      }
+
+      const { params = [], body } = this.macros[name]
+
+      if (!Array.isArray(args) || args.length !== params.length) {
+        throw new GrammarCompileError(
+          `Macro "${name}" takes ${params.length} argument(s)`,
+          "args",
+          args
+        )
+      }
+
+      const table: Record<string, unknown> = {}
+      params.forEach((param, idx) => (table[param] = args[idx]))
+
+      const substituted = substitute(body, table)
+
+      this.stack.push(name)
+      try {
+        return this.value(substituted, path)
+      } finally {
+        this.stack.pop()
+      }
+    } catch (err) {
+      this.errors.push(GrammarCompileError.from(err).locate(null, path))
+      return call
+    }
+  }
+}
+
+/**
+ * Returns a copy of the body of a macro, with its parameters replaced by
+ * their arguments. Parameters inside of a longer string are expanded like
+ * variables, and a string that is just a parameter is replaced with a copy
+ * of the argument, whatever it is.
+ *
+ * @param value - The part of the body to substitute.
+ * @param table - The arguments, by the name of their parameter.
+ */
+function substitute(value: unknown, table: Record<string, unknown>): unknown {
+  if (Array.isArray(value)) return value.map(item => substitute(item, table))
+
+  if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>
+    const result: Record<string, unknown> = {}
+    for (const key in obj) result[key] = substitute(obj[key], table)
+    return result
+  }
+
+  if (typeof value !== "string") return value
+
+  // copied, as the same argument can be used more than once
+  const whole = /^@(\w+)$/.exec(value)
+  if (whole && Object.prototype.hasOwnProperty.call(table, whole[1])) {
+    return substitute(table[whole[1]], {})
+  }
+
+  const strings: Record<string, string> = {}
+  for (const [, name] of value.matchAll(/@(\w+)/g)) {
+    if (!Object.prototype.hasOwnProperty.call(table, name)) continue
+    const arg = table[name]
+    if (typeof arg !== "string") {
+      throw new GrammarCompileError(
+        `Argument "${name}" isn't a string, so it can only be used on its own, as "@${name}"`,
+        "args",
+        arg
+      )
+    }
+    strings[name] = arg
+  }
+
+  const mode = isRegExpString(value) ? "regexp" : "string"
+  return expandVariables(value, strings, mode, true)
+}
+
+/**
+ * Returns true if a value from a grammar definition is a macro call.
+ *
+ * @param value - The value to check.
+ */
+function isMacroCall(value: unknown): value is DF.MacroCall {
+  return typeof value === "object" && value !== null && "macro" in value
+}
@@ -0,0 +1,704 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+/**
+ * The largest character class range that is expanded into a set of code
+ * points. Anything larger is treated as if it could match anything.
+ */
+const MAX_RANGE = 1024
+
+/** Code points matched by the `\d` escape. */
+const DIGITS = range(0x30, 0x39)
+
+/** Code points matched by the `\w` escape. */
+const WORD = [...DIGITS, ...range(0x41, 0x5a), 0x5f, ...range(0x61, 0x7a)]
+
+/** A parsed regex, as a list of alternatives, each a sequence of terms. */
+type Alternatives = Term[][]
+
+/**
+ * A part of a parsed regex.
+ *
+ * - `char`: A single character, from a set of code points, or any character
+ *   if `points` is `null`.
+ * - `group`: A group, which is a lookaround if `look` is given, and is
+ *   `capturing` if it's a capturing or named group.
+ * - `anchor`: `^`, `$`, `\b`, or `\B`.
+ * - `backreference`: A backreference, e.g. `\1`.
+ * - `repeat`: A quantified term.
+ */
+type Term =
+  | { kind: "char"; points: Set<number> | null }
+  | { kind: "group"; body: Alternatives; look?: "ahead" | "behind"; capturing?: boolean }
+  | { kind: "anchor"; char: string }
+  | { kind: "backreference" }
+  | { kind: "repeat"; term: Term; min: number; max: number }
+
+/**
+ * How far around the position a matcher is tested at it can look, in
+ * UTF-16 code units. Either distance is `Infinity` if it's unbounded.
+ */
+export interface Reach {
+  /** How far behind the position the matcher can look. */
+  behind: number
+
+  /** How far ahead of the position the matcher can look, including what it matches. */
+  ahead: number
+}
+
+/**
+ * The {@link Reach} of a part of a regex, along with the shortest and
+ * longest distance it can advance by.
+ */
+interface TermReach extends Reach {
+  min: number
+  max: number
+}
+
+/**
+ * What a part of a regex can start with.
+ *
+ * - `points`: The code points a match can start with, or `null` if any code
+ *   point could.
+ * - `empty`: If true, the part can match without consuming anything.
+ */
+interface First {
+  points: Set<number> | null
+  empty: boolean
+}
+
+/**
+ * Returns the set of code points that a match of a `RegExp` can start
+ * with, or `null` if that can't be known. This is the case if the `RegExp`
+ * can match an empty string, or starts with something too broad to list,
+ * like a `.` wildcard or a negated character class.
+ *
+ * The analysis is conservative, so the set may contain code points that
+ * can't actually start a match, but a match never starts with a code point
+ * that isn't in the set. Case-insensitive regexes include the upper and
+ * lowercase forms of each code point.
+ *
+ * @param regexp - The `RegExp` to analyze.
+ */
+export function firstPoints(regexp: RegExp) {
+  const parsed = parse(regexp.source)
+  if (!parsed) return null
+
+  const { points, empty } = firstOf(parsed)
+  if (!points || empty) return null
+
+  return regexp.ignoreCase ? caseVariants(points) : points
+}
+
+/**
+ * Returns how far behind the position it's tested at a lookbehind pattern
+ * can look, in UTF-16 code units. This is `Infinity` if the pattern is
+ * unbounded, e.g. if it uses `*`, or a `^` anchor, which has to see the
+ * start of the string. Patterns that can't be analyzed are treated as
+ * unbounded as well.
+ *
+ * @param regexp - The `RegExp` the lookbehind is created from.
+ */
+export function lookbehindDistance(regexp: RegExp) {
+  const parsed = parse(regexp.source)
+  if (!parsed) return Infinity
+  return distanceOf(parsed, regexp.unicode)
+}
+
+/**
+ * Returns true if a `RegExp` can look past the end of what it matches,
+ * with a `$`, `\b`, or `\B` anchor, or a lookahead. A lookbehind created
+ * from such a pattern has to be tested against a sliced string, so that it
+ * can't see the text after its position. Patterns that can't be analyzed
+ * are assumed to look ahead.
+ *
+ * @param regexp - The `RegExp` to check.
+ */
+export function looksAhead(regexp: RegExp) {
+  const parsed = parse(regexp.source)
+  if (!parsed) return true
+  const check = (term: Term): boolean => {
+    if (term.kind === "anchor") return term.char !== "^"
+    if (term.kind === "repeat") return check(term.term)
+    if (term.kind !== "group") return false
+    return term.look === "ahead" || term.body.some(sequence => sequence.some(check))
+  }
+  return parsed.some(sequence => sequence.some(check))
+}
+
+/**
+ * Returns the {@link Reach} of a `RegExp`, which is how far around the
+ * position it's tested at it can look. A `RegExp` that can't be analyzed
+ * is treated as unbounded.
+ *
+ * @param regexp - The `RegExp` to analyze.
+ */
+export function patternReach(regexp: RegExp): Reach {
+  const parsed = parse(regexp.source)
+  if (!parsed) return { behind: Infinity, ahead: Infinity }
+  const { behind, ahead } = reachOf(parsed, regexp.unicode)
+  return { behind, ahead }
+}
+
+/**
+ * Returns true if the capturing groups of a `RegExp` always cover its
+ * entire match, one after another, so that where each capture is can be
+ * found from the lengths of the captures alone. This is the case if the
+ * `RegExp` is a sequence of capturing groups, which aren't nested or
+ * repeated, with nothing outside of them but lookarounds and anchors.
+ * `RegExp`s that can't be analyzed are assumed to not be tiled.
+ *
+ * @param regexp - The `RegExp` to analyze.
+ */
+export function capturesTile(regexp: RegExp) {
+  const parsed = parse(regexp.source)
+  if (!parsed || parsed.length !== 1) return false
+  return parsed[0].every(term => {
+    // optional groups that don't match capture an empty string
+    if (term.kind === "repeat" && term.max === 1) term = term.term
+    if (term.kind === "anchor") return true
+    if (term.kind !== "group") return false
+    if (term.look) return !hasCaptures(term.body)
+    return !!term.capturing && !hasCaptures(term.body)
+  })
+}
+
+/**
+ * Returns the index of each named group of a `RegExp`, by name, starting
+ * at `0` for the first capturing group, the same as rule captures are.
+ * Unlike the other functions here, this only has to find where groups
+ * open, so it works for any valid `RegExp`.
+ *
+ * @param regexp - The `RegExp` to find the named groups of.
+ */
+export function groupNames(regexp: RegExp) {
+  const src = regexp.source
+  const names: Record<string, number> = {}
+  let count = 0
+  let inClass = false
+
+  for (let i = 0; i < src.length; i++) {
+    const char = src[i]
+    if (char === "\\") i++
+    else if (inClass) inClass = char !== "]"
+    else if (char === "[") inClass = true
+    else if (char === "(") {
+      const named = /^\?<([^=!>][^>]*)>/.exec(src.slice(i + 1))
+      if (named) names[named[1]] = count
+      if (named || src[i + 1] !== "?") count++
+    }
+  }
+
+  return names
+}
+
+/**
+ * Returns true if a list of alternatives has any capturing groups.
+ *
+ * @param alternatives - The alternatives to check.
+ */
+function hasCaptures(alternatives: Alternatives): boolean {
+  const check = (term: Term): boolean => {
+    if (term.kind === "repeat") return check(term.term)
+    if (term.kind !== "group") return false
+    return !!term.capturing || hasCaptures(term.body)
+  }
+  return alternatives.some(sequence => sequence.some(check))
+}
+
+/**
+ * Returns a copy of a set of code points, with the single code point upper
+ * and lowercase forms of each code point added.
+ *
+ * @param points - The code points to add the cased forms of.
+ */
+export function caseVariants(points: Iterable<number>) {
+  const result = new Set<number>()
+  const add = (point: number) => {
+    if (result.has(point)) return
+    result.add(point)
+    const char = String.fromCodePoint(point)
+    for (const cased of [char.toLowerCase(), char.toUpperCase()]) {
+      // e.g. "ß" uppercases to "SS", which isn't a single code point
+      const casedPoint = cased.codePointAt(0)!
+      if (cased === String.fromCodePoint(casedPoint)) add(casedPoint)
+    }
+  }
+  for (const point of points) add(point)
+  return result
+}
+
+/**
+ * Parses the source of a `RegExp`. Returns `null` if the source uses
+ * syntax the parser doesn't understand, or is invalid.
+ *
+ * @param src - The source to parse.
+ */
+function parse(src: string) {
+  try {
+    const parser = new RegExpParser(src)
+    const parsed = parser.alternatives()
+    // a stray ")" would stop the parser early
+    return parser.done ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns what a list of alternatives can start with.
+ *
+ * @param alternatives - The alternatives to check.
+ */
+function firstOf(alternatives: Alternatives) {
+  const first: First = { points: new Set(), empty: false }
+  for (const sequence of alternatives) {
+    const next: First = { points: new Set(), empty: true }
+    // terms past the first one that can't be empty don't matter
+    for (let i = 0; i < sequence.length && next.empty; i++) {
+      const term = firstOfTerm(sequence[i])
+      next.points = union(next.points, term.points)
+      next.empty = term.empty
+    }
+    first.points = union(first.points, next.points)
+    first.empty ||= next.empty
+  }
+  return first
+}
+
+/**
+ * Returns what a term can start with.
+ *
+ * @param term - The term to check.
+ */
+function firstOfTerm(term: Term): First {
+  switch (term.kind) {
+    case "char": {
+      return { points: term.points, empty: false }
+    }
+    case "anchor": {
+      return { points: new Set(), empty: true }
+    }
+    case "backreference": {
+      return { points: null, empty: true }
+    }
+    case "group": {
+      // lookarounds don't consume anything
+      if (term.look) return { points: new Set(), empty: true }
+      return firstOf(term.body)
+    }
+    case "repeat": {
+      const first = firstOfTerm(term.term)
+      if (term.min === 0) first.empty = true
+      return first
+    }
+  }
+}
+
+/**
+ * Returns how far behind the position it ends at a list of alternatives can look.
+ *
+ * @param alternatives - The alternatives to check.
+ * @param unicode - If true, wildcards can match surrogate pairs.
+ */
+function distanceOf(alternatives: Alternatives, unicode: boolean) {
+  let max = 0
+  for (const sequence of alternatives) {
+    let distance = 0
+    for (const term of sequence) distance += distanceOfTerm(term, unicode)
+    max = Math.max(max, distance)
+  }
+  return max
+}
+
+/**
+ * Returns how far behind the position it ends at a term can look.
+ *
+ * @param term - The term to check.
+ * @param unicode - If true, wildcards can match surrogate pairs.
+ */
+function distanceOfTerm(term: Term, unicode: boolean): number {
+  switch (term.kind) {
+    case "char": {
+      if (!term.points) return unicode ? 2 : 1
+      for (const point of term.points) if (point > 0xffff) return 2
+      return 1
+    }
+    case "anchor": {
+      // "^" has to see the start of the string, and "\b" the character before
+      if (term.char === "^") return Infinity
+      return term.char === "$" ? 0 : 1
+    }
+    case "backreference": {
+      return Infinity
+    }
+    case "group": {
+      // a nested lookbehind can look even further back, so it counts
+      if (term.look === "ahead") return 0
+      return distanceOf(term.body, unicode)
+    }
+    case "repeat": {
+      const distance = distanceOfTerm(term.term, unicode)
+      // avoids Infinity * 0, which is NaN
+      return distance === 0 ? 0 : distance * term.max
+    }
+  }
+}
+
+/**
+ * Returns the reach of a list of alternatives, relative to where it starts.
+ *
+ * @param alternatives - The alternatives to check.
+ * @param unicode - If true, wildcards can match surrogate pairs.
+ */
+function reachOf(alternatives: Alternatives, unicode: boolean) {
+  const reach: TermReach = { behind: 0, ahead: 0, min: Infinity, max: 0 }
+  for (const sequence of alternatives) {
+    // the shortest and longest distance advanced so far
+    let min = 0
+    let max = 0
+    let behind = 0
+    let ahead = 0
+    for (const term of sequence) {
+      const next = reachOfTerm(term, unicode)
+      behind = Math.max(behind, next.behind - min)
+      ahead = Math.max(ahead, max + next.ahead)
+      min += next.min
+      max += next.max
+    }
+    reach.behind = Math.max(reach.behind, behind)
+    reach.ahead = Math.max(reach.ahead, ahead)
+    reach.min = Math.min(reach.min, min)
+    reach.max = Math.max(reach.max, max)
+  }
+  return reach
+}
+
+/**
+ * Returns the reach of a term, relative to where it starts.
+ *
+ * @param term - The term to check.
+ * @param unicode - If true, wildcards can match surrogate pairs.
+ */
+function reachOfTerm(term: Term, unicode: boolean): TermReach {
+  switch (term.kind) {
+    case "char": {
+      const width = distanceOfTerm(term, unicode)
+      return { behind: 0, ahead: width, min: 1, max: width }
+    }
+    case "anchor": {
+      // anchors check the characters around them, as matchers are multiline
+      const behind = term.char === "$" ? 0 : 1
+      const ahead = term.char === "^" ? 0 : 1
+      return { behind, ahead, min: 0, max: 0 }
+    }
+    case "backreference": {
+      return { behind: 0, ahead: Infinity, min: 0, max: Infinity }
+    }
+    case "group": {
+      if (term.look === "behind") {
+        const behind = distanceOf(term.body, unicode)
+        return { behind, ahead: 0, min: 0, max: 0 }
+      }
+      const reach = reachOf(term.body, unicode)
+      if (term.look === "ahead") return { ...reach, min: 0, max: 0 }
+      return reach
+    }
+    case "repeat": {
+      const reach = reachOfTerm(term.term, unicode)
+      if (term.max === 0) return { behind: 0, ahead: 0, min: 0, max: 0 }
+      // avoids Infinity * 0, which is NaN
+      const max = reach.max === 0 ? 0 : reach.max * term.max
+      // the last repetition can look past what it matches
+      const ahead =
+        reach.max === 0 || term.max === 1
+          ? reach.ahead
+          : reach.max * (term.max - 1) + reach.ahead
+      return { behind: reach.behind, ahead, min: reach.min * term.min, max }
+    }
+  }
+}
+
+/**
+ * Parses the source of a `RegExp` into a list of alternatives. Syntax it
+ * doesn't understand throws, so that the caller can give up.
+ */
+class RegExpParser {
+  /** The current position in the source. */
+  private pos = 0
+
+  /** @param src - The source of the `RegExp`. */
+  constructor(private src: string) {}
+
+  /** True if the whole source has been parsed. */
+  get done() {
+    return this.pos >= this.src.length
+  }
+
+  /** Parses a list of alternatives, up to the end of the source or a `)`. */
+  alternatives() {
+    const alternatives: Alternatives = [this.sequence()]
+    while (this.src[this.pos] === "|") {
+      this.pos++
+      alternatives.push(this.sequence())
+    }
+    return alternatives
+  }
+
+  /** Parses a sequence of terms, up to the end of the source, a `|`, or a `)`. */
+  private sequence() {
+    const sequence: Term[] = []
+    while (!this.done && this.src[this.pos] !== "|" && this.src[this.pos] !== ")") {
+      sequence.push(this.term())
+    }
+    return sequence
+  }
+
+  /** Parses a term, which is an atom and an optional quantifier. */
+  private term(): Term {
+    const term = this.atom()
+
+    const match = /^(?:[*+?]|\{(\d+)(?:(,)(\d*))?\})\??/.exec(this.src.slice(this.pos))
+    if (!match) return term
+
+    this.pos += match[0].length
+
+    const [quantifier, min, comma, max] = match
+
+    if (min !== undefined) {
+      const from = parseInt(min, 10)
+      const to = !comma ? from : max ? parseInt(max, 10) : Infinity
+      return { kind: "repeat", term, min: from, max: to }
+    }
+
+    // prettier-ignore
+    switch (quantifier[0]) {
+      case "*": return { kind: "repeat", term, min: 0, max: Infinity }
+      case "+": return { kind: "repeat", term, min: 1, max: Infinity }
+      default:  return { kind: "repeat", term, min: 0, max: 1 }
+    }
+  }
+
+  /** Parses an atom, e.g. a character, a group, or an escape. */
+  private atom(): Term {
+    const point = this.src.codePointAt(this.pos)!
+    const char = String.fromCodePoint(point)
+    this.pos += char.length
+
+    switch (char) {
+      case "^":
+      case "$":
+        return { kind: "anchor", char }
+      case ".":
+        return { kind: "char", points: null }
+      case "(":
+        return this.group()
+      case "[":
+        return { kind: "char", points: this.characterClass() }
+      case "\\":
+        return this.escape()
+      case "*":
+      case "+":
+      case "?":
+      case "{":
+      case "}":
+      case "]":
+        throw new Error(`Unexpected ${char}`)
+      default:
+        return { kind: "char", points: new Set([point]) }
+    }
+  }
+
+  /** Parses a group, after its opening `(`. */
+  private group(): Term {
+    let look: "ahead" | "behind" | undefined
+    let capturing = true
+
+    if (this.src[this.pos] === "?") {
+      // non-capturing, lookarounds, and named groups
+      const kind = /^\?(?:[:=!]|<[=!]|<[^>]+>)/.exec(this.src.slice(this.pos))
+      if (!kind) throw new Error("Unknown group kind")
+      this.pos += kind[0].length
+      if (/^\?[=!]$/.test(kind[0])) look = "ahead"
+      if (/^\?<[=!]$/.test(kind[0])) look = "behind"
+      // named groups are the only kind that captures
+      capturing = !look && kind[0] !== "?:"
+    }
+
+    const body = this.alternatives()
+    if (this.src[this.pos] !== ")") throw new Error("Unterminated group")
+    this.pos++
+
+    if (look) return { kind: "group", body, look }
+    return capturing ? { kind: "group", body, capturing } : { kind: "group", body }
+  }
+
+  /** Parses an escape outside of a character class, after its `\`. */
+  private escape(): Term {
+    const char = this.src[this.pos]
+
+    if (char === "b" || char === "B") {
+      this.pos++
+      return { kind: "anchor", char: `\\${char}` }
+    }
+
+    if (char === "k") {
+      const name = /^k<[^>]+>/.exec(this.src.slice(this.pos))
+      if (!name) throw new Error("Invalid backreference")
+      this.pos += name[0].length
+      return { kind: "backreference" }
+    }
+
+    if (/[1-9]/.test(char)) {
+      while (/\d/.test(this.src[this.pos])) this.pos++
+      return { kind: "backreference" }
+    }
+
+    const points = this.classEscape()
+    return {
+      kind: "char",
+      points: typeof points === "number" ? new Set([points]) : points
+    }
+  }
+
+  /**
+   * Parses a character class, after its opening `[`. Returns `null` if the
+   * class is negated, or contains something too broad to list.
+   */
+  private characterClass() {
+    const negated = this.src[this.pos] === "^"
+    if (negated) this.pos++
+
+    let points: Set<number> | null = new Set<number>()
+
+    while (this.src[this.pos] !== "]") {
+      if (this.done) throw new Error("Unterminated character class")
+
+      const start = this.classAtom()
+
+      // a range, unless the "-" is the last character of the class
+      if (
+        typeof start === "number" &&
+        this.src[this.pos] === "-" &&
+        this.src[this.pos + 1] !== "]"
+      ) {
+        this.pos++
+        const end = this.classAtom()
+        if (typeof end !== "number" || end < start) throw new Error("Invalid range")
+        points = end - start > MAX_RANGE ? null : union(points, range(start, end))
+      } else {
+        points = union(points, typeof start === "number" ? [start] : start)
+      }
+    }
+
+    this.pos++
+
+    return negated ? null : points
+  }
+
+  /**
+   * Parses a single character of a character class. Returns either a code
+   * point, or a set of them for escapes like `\d`.
+   */
+  private classAtom() {
+    const point = this.src.codePointAt(this.pos)!
+    this.pos += point > 0xffff ? 2 : 1
+    if (point !== 0x5c /* \ */) return point
+    // "\b" is a backspace inside of a class
+    if (this.src[this.pos] === "b") {
+      this.pos++
+      return 0x08
+    }
+    return this.classEscape()
+  }
+
+  /**
+   * Parses an escape that is valid both inside and outside of a character
+   * class, after its `\`. Returns either a code point, a set of them, or
+   * `null` if the escape matches something too broad to list.
+   */
+  private classEscape(): number | Set<number> | null {
+    const point = this.src.codePointAt(this.pos)!
+    const char = String.fromCodePoint(point)
+    this.pos += char.length
+
+    // prettier-ignore
+    switch (char) {
+      case "d": return new Set(DIGITS)
+      case "w": return new Set(WORD)
+      case "n": return 0x0a
+      case "r": return 0x0d
+      case "t": return 0x09
+      case "f": return 0x0c
+      case "v": return 0x0b
+      case "0": return 0x00
+    }
+
+    if (/[DWsSpP]/.test(char)) {
+      // skip the property name of "\p{...}"
+      if (/[pP]/.test(char)) {
+        const end = this.src.indexOf("}", this.pos)
+        if (end === -1) throw new Error("Invalid property escape")
+        this.pos = end + 1
+      }
+      return null
+    }
+
+    if (char === "c") {
+      const letter = this.src.charCodeAt(this.pos++)
+      return letter % 32
+    }
+
+    if (char === "x") return this.hex(/^[\da-f]{2}/i)
+
+    if (char === "u") {
+      if (this.src[this.pos] !== "{") return this.hex(/^[\da-f]{4}/i)
+      const braced = /^\{([\da-f]+)\}/i.exec(this.src.slice(this.pos))
+      if (!braced) throw new Error("Invalid unicode escape")
+      this.pos += braced[0].length
+      return parseInt(braced[1], 16)
+    }
+
+    // identity escape, e.g. "\."
+    if (/\w/.test(char)) throw new Error(`Unknown escape \\${char}`)
+    return point
+  }
+
+  /**
+   * Parses a hexadecimal code point.
+   *
+   * @param regexp - The regex the digits have to match.
+   */
+  private hex(regexp: RegExp) {
+    const digits = regexp.exec(this.src.slice(this.pos))
+    if (!digits) throw new Error("Invalid hex escape")
+    this.pos += digits[0].length
+    return parseInt(digits[0], 16)
+  }
+}
+
+/**
+ * Returns the union of two sets of code points, where `null` means any
+ * code point. The first set is modified, if it can be.
+ *
+ * @param a - The first set.
+ * @param b - The second set, or any other list of code points.
+ */
+function union(a: Set<number> | null, b: Iterable<number> | null) {
+  if (!a || !b) return null
+  for (const point of b) a.add(point)
+  return a
+}
+
+/**
+ * Returns a list of every code point in a range.
+ *
+ * @param start - The first code point.
+ * @param end - The last code point, inclusive.
+ */
+function range(start: number, end: number) {
+  const points: number[] = []
+  for (let point = start; point <= end; point++) points.push(point)
+  return points
+}
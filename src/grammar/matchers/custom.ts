@@ -0,0 +1,55 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type { Matcher, MatchOutput } from "../../types"
+import type * as DF from "../definition"
+import type { Reach } from "./analyze"
+
+/**
+ * Wraps a hand-written {@link Matcher}, given to the grammar by name. As
+ * nothing can be known about what the matcher does, every rule is assumed
+ * to be able to start with it, and it can look as far as the default margins allow.
+ */
+export class CustomMatcher implements Matcher {
+  /**
+   * @param name - The name the matcher was given as.
+   * @param matcher - The wrapped matcher.
+   */
+  constructor(private name: string, private matcher: Matcher) {}
+
+  /** Returns the reference to the matcher, as only its name can be stored. */
+  snapshot(): DF.MatcherReference {
+    return { matcher: this.name }
+  }
+
+  /** Returns `null`, as a match could start with anything. */
+  first() {
+    return null
+  }
+
+  /** Returns how far around the position it's tested at this matcher can look. */
+  reach(): Reach {
+    return { behind: Infinity, ahead: Infinity }
+  }
+
+  /**
+   * Tests to see if the matcher matches the given string.
+   *
+   * @param str - The string to match.
+   * @param pos - The position to start matching at.
+   */
+  test(str: string, pos: number) {
+    return this.matcher.test(str, pos)
+  }
+
+  /**
+   * Returns the results of attempting to match a string with the matcher.
+   *
+   * @param str - The string to match.
+   * @param pos - The position to start matching at.
+   */
+  match(str: string, pos: number): MatchOutput {
+    return this.matcher.match(str, pos)
+  }
+}
@@ -3,24 +3,26 @@
  * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
 
 import type { Matcher, VariableTable } from "../../types"
-import { pointsMatch, toPoints } from "../../util"
+import { expandVariables } from "../variables"
+import type { Reach } from "./analyze"
+import { caseVariants } from "./analyze"
 
 /**
  * Matcher that takes in a list of strings, and matches each one against an
- * input to see if any match.
+ * input to see if any match. The longest matching string wins.
+ *
+ * The strings are stored as a trie of code points, so that matching is a
+ * single walk along the input, no matter how many strings there are.
  */
 export class LookupMatcher implements Matcher {
   /** True if matching is case-insensitive. */
   private declare ignoreCase: boolean
 
-  /** A list of number arrays, each one being a codepoint representation of a word. */
-  private declare entries: number[][]
-
-  /** A mapping between the `entries` list and lengths of their source word. */
-  private declare lengths: Map<number[], number>
+  /** The list of strings, with variables expanded and lowercased if needed. */
+  private declare entries: string[]
 
-  /** The longest entry in `entries`, by its original string length. */
-  private declare max: number
+  /** The root of the trie. */
+  private declare root: TrieNode
 
   /**
    * @param src - The source list of strings.
@@ -28,37 +30,96 @@ export class LookupMatcher implements Matcher {
    * @param variables - A variable table to use when expanding variables.
    */
   constructor(src: string[], ignoreCase?: boolean, variables?: VariableTable) {
-    // longest first
-    const sorted = [...src].sort((a, b) => b.length - a.length)
-
-    this.max = sorted[0].length
     this.ignoreCase = Boolean(ignoreCase)
-    this.lengths = new Map()
-
-    this.entries = sorted.map(entry => {
-      if (variables) entry = expandVariables(entry, variables)
-      if (ignoreCase) entry = entry.toLowerCase()
-      const points = toPoints(entry)
-      this.lengths.set(points, entry.length)
-      return points
+    this.root = { next: null, end: false }
+
+    this.entries = src.map(entry => {
+      if (variables) entry = expandVariables(entry, variables, "string")
+      // edges are case-folded, so lowercase input can just be walked
+      if (ignoreCase) entry = foldCase(entry)
+      this.insert(entry)
+      return entry
     })
   }
 
+  /**
+   * Returns the fully expanded list of strings this matcher uses. Creating
+   * a matcher from it doesn't need any variables.
+   */
+  snapshot() {
+    return [...this.entries]
+  }
+
+  /**
+   * Returns the set of code points a match can start with, or `null` if
+   * one of the strings is empty.
+   */
+  first() {
+    if (this.root.end || !this.root.next) return null
+    const points = this.root.next.keys()
+    return this.ignoreCase ? caseVariants(points) : new Set(points)
+  }
+
+  /** Returns how far around the position it's tested at this matcher can look. */
+  reach(): Reach {
+    let ahead = 0
+    for (const entry of this.entries) ahead = Math.max(ahead, entry.length)
+    // each input code point lowercases into at least one code point of an entry,
+    // but may be a surrogate pair, so the input can be twice as long
+    return { behind: 0, ahead: this.ignoreCase ? ahead * 2 : ahead }
+  }
+
+  /**
+   * Adds a string to the trie.
+   *
+   * @param entry - The string to add.
+   */
+  private insert(entry: string) {
+    let node = this.root
+    for (const char of entry) {
+      const point = char.codePointAt(0)!
+      if (!node.next) node.next = new Map()
+      let child = node.next.get(point)
+      if (!child) {
+        child = { next: null, end: false }
+        node.next.set(point, child)
+      }
+      node = child
+    }
+    node.end = true
+  }
+
   /**
    * Internal method which returns the length of a match against a string,
-   * if one was found.
+   * if one was found. The trie is walked until the input stops matching,
+   * and the last entry passed along the way is the longest match.
    *
    * @param str - The string to match.
    * @param pos - The position to start matching at.
    */
   private exec(str: string, pos: number) {
-    const slice = str.slice(pos, pos + this.max)
-    const against = toPoints(this.ignoreCase ? slice.toLowerCase() : slice)
-    for (let i = 0; i < this.entries.length; i++) {
-      const points = this.entries[i]
-      if (pointsMatch(points, against, 0)) return this.lengths.get(points)!
+    let node: TrieNode | undefined = this.root
+    let length = node.end ? 0 : null
+
+    for (let i = pos; i < str.length && node.next; ) {
+      const point = str.codePointAt(i)!
+      i += point > 0xffff ? 2 : 1
+
+      if (!this.ignoreCase) {
+        node = node.next.get(point)
+      } else if (point < 0x80) {
+        // fast path for ASCII, which doesn't need a string to be lowercased
+        node = node.next.get(point >= 65 && point <= 90 ? point + 32 : point)
+      } else {
+        // lowercasing can result in multiple code points
+        node = walk(node, String.fromCodePoint(point).toLowerCase())
+      }
+
+      if (!node) break
+      if (node.end) length = i - pos
     }
-    return null
+
+    return length
   }
 
   /**
@@ -88,24 +149,37 @@ export class LookupMatcher implements Matcher {
   }
 }
 
+/** A node in the trie of a {@link LookupMatcher}. */
+interface TrieNode {
+  /** Child nodes, by the code point of the edge leading to them. */
+  next: Map<number, TrieNode> | null
+
+  /** True if a string in the list ends at this node. */
+  end: boolean
+}
+
 /**
- * Expands the variables in a pattern source using a variable table.
+ * Walks a trie along every code point of a string, returning the node
+ * reached, or `undefined` if the string leaves the trie.
  *
- * @param src - The source to expand.
- * @param variables - The variable table to use.
+ * @param node - The node to start from.
+ * @param str - The string to walk along.
  */
-function expandVariables(src: string, variables: VariableTable) {
-  let depth = 0
-  while (/@\w/.test(src) && depth < 5) {
-    depth++
-    src = src.replace(/@(\w+)/g, (_, ident: string) => {
-      const value = variables[ident]
-      if (typeof value !== "string") {
-        throw new Error(`Variable ${ident} is not a string`)
-      }
-      return value
-    })
-  }
+function walk(node: TrieNode | undefined, str: string) {
+  for (const char of str) node = node?.next?.get(char.codePointAt(0)!)
+  return node
+}
 
-  return src
+/**
+ * Lowercases a string one code point at a time, the same way input is
+ * lowercased when it's matched. Lowercasing the whole string at once can
+ * differ, as some mappings depend on the characters around them, e.g. a
+ * final `Σ` lowercases to `ς` rather than `σ`.
+ *
+ * @param str - The string to lowercase.
+ */
+function foldCase(str: string) {
+  let folded = ""
+  for (const char of str) folded += char.toLowerCase()
+  return folded
 }
@@ -2,8 +2,27 @@
  * License, v. 2.0. If a copy of the MPL was not distributed with this
  * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
 
-import type { Matcher, VariableTable } from "../../types"
+import type { Matcher, MatchOutput, VariableTable } from "../../types"
 import { escapeRegExp, hasCapturingGroups, isRegExpString, re } from "../../util"
+import type * as DF from "../definition"
+import { expandVariables } from "../variables"
+import { capturesTile, firstPoints, groupNames, patternReach } from "./analyze"
+
+/** The result of `RegExp.exec`, for a `RegExp` with the `d` flag. */
+type RegExpIndicesArray = RegExpExecArray & { indices: ([number, number] | undefined)[] }
+
+/**
+ * True if the `d` flag is supported, which gives the indices of captures.
+ * Where it isn't, captures have to tile the match, as they're placed one
+ * after the other.
+ */
+const HAS_INDICES = (() => {
+  try {
+    return new RegExp("", "d").flags === "d"
+  } catch {
+    return false
+  }
+})()
 
 /**
  * `RegExp` wrapper class. Designed to improve performance by implementing
@@ -26,6 +45,13 @@ export class RegExpMatcher implements Matcher {
    */
   private declare hasCapturingGroups: boolean
 
+  /**
+   * True if the capturing groups of the `RegExp` can nest, or leave gaps
+   * in the match. If so, the `RegExp` has the `d` flag, so that where each
+   * capture is can be found. Always false if the `d` flag isn't supported.
+   */
+  private declare hasIndices: boolean
+
   /**
    * @param src - The source `RegExp` to wrap.
    * @param ignoreCase - If `true`, the ignore case flag is set automatically.
@@ -33,11 +59,45 @@ export class RegExpMatcher implements Matcher {
    */
   constructor(src: string, ignoreCase = false, variables?: VariableTable) {
     const flags = ignoreCase ? "iymu" : "ymu"
-    if (variables) src = expandVariables(src, variables)
-    const regexp = re(src, flags)
+    if (variables) src = expandVariables(src, variables, "regexp")
+    let regexp = re(src, flags)
     if (!regexp) throw new Error(`Invalid RegExp: ${src}`)
+    this.hasCapturingGroups = hasCapturingGroups(regexp)
+    this.hasIndices = HAS_INDICES && this.hasCapturingGroups && !capturesTile(regexp)
+    if (this.hasIndices && !regexp.flags.includes("d")) {
+      regexp = new RegExp(regexp.source, `${regexp.flags}d`)
+    }
     this.regexp = regexp
-    this.hasCapturingGroups = this.regexp ? hasCapturingGroups(this.regexp) : false
+  }
+
+  /**
+   * Returns the fully expanded `RegExp` this matcher uses, as a regex
+   * string. Creating a matcher from it doesn't need any variables. The `d`
+   * flag is left out, as it's added back if it's needed and supported.
+   */
+  snapshot(): DF.Regex {
+    return `/${this.regexp.source}/${this.regexp.flags.replace("d", "")}`
+  }
+
+  /**
+   * Returns the set of code points a match can start with, or `null` if it
+   * can't be known.
+   */
+  first() {
+    return firstPoints(this.regexp)
+  }
+
+  /** Returns how far around the position it's tested at this matcher can look. */
+  reach() {
+    return patternReach(this.regexp)
+  }
+
+  /**
+   * Returns the index of each named group, by name, starting at `0` for
+   * the first capturing group.
+   */
+  groups() {
+    return groupNames(this.regexp)
   }
 
   /**
@@ -95,6 +155,16 @@ export class RegExpMatcher implements Matcher {
         const captures = match.length > 1 ? match.slice(1) : null
         const length = total.length
 
+        if (this.hasIndices && captures) {
+          const indices: ([number, number] | undefined)[] = []
+          for (let i = 0; i < captures.length; i++) {
+            const range = (match as RegExpIndicesArray).indices[i + 1]
+            if (captures[i] === undefined) captures[i] = ""
+            indices.push(range ? [range[0] - pos, range[1] - pos] : undefined)
+          }
+          return withGroups({ total, captures, indices, length }, match)
+        }
+
         // capturing groups can be undefined if an entire group was marked as optional
         // so we'll replace those with an empty string to keep the interface consistent
         if (captures) {
@@ -108,7 +178,7 @@ export class RegExpMatcher implements Matcher {
           if (len !== length) throw new Error("Invalid capturing group lengths")
         }
 
-        return { total, captures, length }
+        return withGroups({ total, captures, length }, match)
       }
     }
 
@@ -117,41 +187,17 @@ export class RegExpMatcher implements Matcher {
 }
 
 /**
- * Expands the variables in a regex source using a variable table.
+ * Adds the captures of the named groups of a `RegExp` match to its output,
+ * if it has any, with an empty string for groups that didn't participate.
  *
- * @param src - The source to expand.
- * @param variables - The variable table to use.
+ * @param output - The output of the match.
+ * @param match - The `RegExp` match.
  */
-function expandVariables(src: string, variables: VariableTable) {
-  let depth = 0
-  while (/@\w/.test(src) && depth < 5) {
-    depth++
-    src = src.replace(/@(\w+)/g, (_, ident: string) => {
-      const value = variables[ident]
-
-      if (value === undefined) {
-        throw new Error(`Variable ${ident} not found`)
-      } else if (typeof value === "object" && "test" in value) {
-        throw new Error(`Variable ${ident} is a Matcher`)
-      }
-
-      if (typeof value === "string" && isRegExpString(value)) {
-        const regexp = re(value)
-        if (!regexp) throw new Error(`Variable ${ident} is an invalid regex`)
-        return `(?:${regexp.source})`
-      }
-
-      // not regex string
-      const variable =
-        typeof value === "string"
-          ? escapeRegExp(value)
-          : value instanceof RegExp
-          ? value.source
-          : value.map(str => escapeRegExp(str)).join("|")
-
-      return `(?:${variable})`
-    })
+function withGroups(output: NonNullable<MatchOutput>, match: RegExpExecArray) {
+  if (match.groups) {
+    const groups: Record<string, string> = {}
+    for (const name in match.groups) groups[name] = match.groups[name] ?? ""
+    output.groups = groups
   }
-
-  return src
+  return output
 }
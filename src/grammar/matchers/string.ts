@@ -4,6 +4,9 @@
 
 import type { Matcher, VariableTable } from "../../types"
 import { pointsMatch, toPoints } from "../../util"
+import { expandVariables } from "../variables"
+import type { Reach } from "./analyze"
+import { caseVariants } from "./analyze"
 
 /** Matcher that takes a string pattern, and matches that against an input. */
 export class StringMatcher implements Matcher {
@@ -22,13 +25,35 @@ export class StringMatcher implements Matcher {
    * @param variables - A variable table to use when expanding variables.
    */
   constructor(str: string, ignoreCase = false, variables?: VariableTable) {
-    if (variables) str = expandVariables(str, variables)
+    if (variables) str = expandVariables(str, variables, "string")
     if (ignoreCase) str = str.toLowerCase()
     this.cased = ignoreCase && str.toLowerCase() !== str.toUpperCase()
     this.length = str.length
     this.points = toPoints(str)
   }
 
+  /**
+   * Returns the fully expanded pattern this matcher uses. Creating a
+   * matcher from it doesn't need any variables.
+   */
+  snapshot() {
+    return String.fromCodePoint(...this.points)
+  }
+
+  /**
+   * Returns the set of code points a match can start with, or `null` if
+   * the pattern is empty.
+   */
+  first() {
+    if (!this.points.length) return null
+    return this.cased ? caseVariants([this.points[0]]) : new Set([this.points[0]])
+  }
+
+  /** Returns how far around the position it's tested at this matcher can look. */
+  reach(): Reach {
+    return { behind: 0, ahead: this.length }
+  }
+
   /**
    * Tests to see if this pattern matches the given string.
    *
@@ -66,25 +91,3 @@ export class StringMatcher implements Matcher {
     return null
   }
 }
-
-/**
- * Expands the variables in a pattern source using a variable table.
- *
- * @param src - The source to expand.
- * @param variables - The variable table to use.
- */
-function expandVariables(src: string, variables: VariableTable) {
-  let depth = 0
-  while (/@\w/.test(src) && depth < 5) {
-    depth++
-    src = src.replace(/@(\w+)/g, (_, ident: string) => {
-      const value = variables[ident]
-      if (typeof value !== "string") {
-        throw new Error(`Variable ${ident} is not a string`)
-      }
-      return value
-    })
-  }
-
-  return src
-}
@@ -15,8 +15,9 @@ import type { EditorState } from "@codemirror/state"
 import { NodeProp, NodePropSource, NodeType, SyntaxNode } from "@lezer/common"
 import { styleTags, Tag, tags } from "@lezer/highlight"
 import { embeddedParserProp, nodeTypeProp } from "../constants"
-import { createID, re } from "./../util"
+import { createID, re, removeUndefined } from "./../util"
 import type * as DF from "./definition"
+import { GrammarCompileError } from "./error"
 
 /** Effectively a light wrapper around a CodeMirror `NodeType`. */
 export class Node {
@@ -32,6 +33,9 @@ export class Node {
   /** The name of an autocomplete handler for this node, if any. */
   declare autocomplete?: string
 
+  /** The definition of this node, which can be used to create it again. */
+  declare def: DF.Node
+
   /** @param id - The ID to assign to this node. */
   constructor(
     id: number,
@@ -45,16 +49,17 @@ export class Node {
       nest,
       fold,
       indent,
-      autocomplete
+      autocomplete,
+      error
     }: DF.Node
   ) {
     if (!type) {
       if (!autocomplete || typeof autocomplete === "boolean") {
-        throw new Error("Node name/type is required")
+        throw new GrammarCompileError("Node name/type is required", "type")
       }
       type = createID(autocomplete)
     }
-    if (emit === false) throw new Error("Node cannot be emitted")
+    if (emit === false) throw new GrammarCompileError("Node cannot be emitted", "emit")
 
     this.id = id
     this.name = type
@@ -66,6 +71,20 @@ export class Node {
 
     if (typeof emit !== "string") emit = type
 
+    this.def = removeUndefined({
+      type,
+      emit,
+      tag,
+      openedBy,
+      closedBy,
+      group,
+      nest,
+      fold,
+      indent,
+      autocomplete,
+      error
+    })
+
     const props: NodePropSource[] = []
 
     props.push(nodeTypeProp.add({ [emit]: this }))
@@ -81,7 +100,7 @@ export class Node {
       if (indent)   props.push(indentNodeProp    .add({ [emit]: parseIndent(indent) }))
     }
 
-    this.type = NodeType.define({ id, name: emit, props })
+    this.type = NodeType.define({ id, name: emit, props, error })
   }
 
   /** Special `Node` used for when a rule doesn't emit anything. */
@@ -116,11 +135,20 @@ const PARSE_TAG_REGEX = /^(?:\((\S*?)\))?(?:\s+|^)(?:(?:(\S+?)\((\S+)\))|(\S+))$
  * ```
  */
 function parseTag(node: string, str: DF.Tag) {
-  const [, modifier, func, arg, last] = PARSE_TAG_REGEX.exec(str)!
+  const match = typeof str === "string" ? PARSE_TAG_REGEX.exec(str) : null
+  if (!match) throw new GrammarCompileError("Invalid tag", "tag", str)
 
-  if (last && !(last in tags)) throw new Error(`Unknown tag: ${last}`)
-  if (func && !(func in tags)) throw new Error(`Unknown tag function: ${func}`)
-  if (arg && !(arg in tags)) throw new Error(`Unknown tag argument: ${arg}`)
+  const [, modifier, func, arg, last] = match
+
+  if (last && !(last in tags)) {
+    throw new GrammarCompileError(`Unknown tag "${last}"`, "tag", str)
+  }
+  if (func && !(func in tags)) {
+    throw new GrammarCompileError(`Unknown tag function "${func}"`, "tag", str)
+  }
+  if (arg && !(arg in tags)) {
+    throw new GrammarCompileError(`Unknown tag argument "${arg}"`, "tag", str)
+  }
 
   let name = arg ? arg : last
   let prefix = ""
@@ -179,12 +207,12 @@ function parseFold(
     default: {
       if (fold.startsWith("offset")) {
         const match = PARSE_OFFSET_FOLD_REGEX.exec(fold)
-        if (!match) throw new Error("Invalid fold offset")
+        if (!match) throw new GrammarCompileError("Invalid fold offset", "fold", fold)
         const left = parseInt(match[1], 10)
         const right = parseInt(match[2], 10)
         return node => ({ from: node.from + left, to: node.to + right })
       } else {
-        throw new Error(`Unknown fold option: ${fold}`)
+        throw new GrammarCompileError(`Unknown fold option "${fold}"`, "fold", fold)
       }
     }
   }
@@ -209,32 +237,38 @@ function parseIndent(indent: string): (context: TreeIndentContext) => number {
 
   if (indent.startsWith("delimited")) {
     const match = PARSE_DELIMITED_INDENT_REGEX.exec(indent)
-    if (!match) throw new Error("Invalid delimited indent")
+    if (!match) {
+      throw new GrammarCompileError("Invalid delimited indent", "indent", indent)
+    }
     const [, closing] = match
     return delimitedIndent({ closing })
   }
 
   if (indent.startsWith("continued")) {
     const match = PARSE_CONTINUED_INDENT_REGEX.exec(indent)
-    if (!match) throw new Error("Invalid continued indent")
+    if (!match) {
+      throw new GrammarCompileError("Invalid continued indent", "indent", indent)
+    }
     const except = re(match[1])
-    if (!except) throw new Error("Invalid continued indent except regex")
+    if (!except) {
+      throw new GrammarCompileError("Invalid continued indent regex", "indent", indent)
+    }
     return continuedIndent({ except })
   }
 
   if (indent.startsWith("add")) {
     const match = PARSE_ADD_INDENT_REGEX.exec(indent)
-    if (!match) throw new Error("Invalid add indent")
+    if (!match) throw new GrammarCompileError("Invalid add indent", "indent", indent)
     const units = parseInt(match[1], 10)
     return cx => cx.baseIndent + cx.unit * units
   }
 
   if (indent.startsWith("set")) {
     const match = PARSE_SET_INDENT_REGEX.exec(indent)
-    if (!match) throw new Error("Invalid set indent")
+    if (!match) throw new GrammarCompileError("Invalid set indent", "indent", indent)
     const units = parseInt(match[1], 10)
     return () => units
   }
 
-  throw new Error(`Unknown indent option: ${indent}`)
+  throw new GrammarCompileError(`Unknown indent option "${indent}"`, "indent", indent)
 }
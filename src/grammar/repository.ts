@@ -5,6 +5,7 @@
 import { NodeID } from "../constants"
 import type { VariableTable } from "../types"
 import type * as DF from "./definition"
+import { GrammarCompileError } from "./error"
 import type { Grammar } from "./grammar"
 import { Node } from "./node"
 import { Chain } from "./rules/chain"
@@ -21,20 +22,63 @@ export class Repository {
   /** Current {@link Node} ID. */
   private curID = NodeID.SAFE
 
+  /** Cache of processed `include` lists. */
+  private includes = new Map<string, (Rule | State)[]>()
+
+  /** Errors for repository items that failed to compile, by name. */
+  private failed = new Map<string, GrammarCompileError>()
+
+  /** The key of the repository item currently being compiled. */
+  private key: string | null = null
+
+  /** The path to the field currently being compiled, relative to `key`. */
+  private path: (string | number)[] = []
+
+  /** Repositories for the grammars imported by this one, by namespace. */
+  private imports = new Map<string, Repository>()
+
+  /** The repository that imported this one, if any. */
+  private parent?: Repository
+
+  /** Errors found while compiling, which didn't stop compilation. */
+  errors: GrammarCompileError[] = []
+
+  /**
+   * Where the items of each compiled `inside` list came from, as compiled
+   * lists don't keep track of which of their items were included.
+   */
+  sources = new WeakMap<(Rule | State)[], InsideSource[]>()
+
+  /**
+   * @param grammar - The {@link Grammar} this repository is for.
+   * @param variables - The variables available to patterns.
+   * @param ignoreCase - If true, patterns will be case-insensitive.
+   * @param def - The definition to get items from. Defaults to the
+   *   grammar's definition, but will be an imported grammar's definition
+   *   for imported repositories.
+   * @param scope - The namespaces this repository was imported under, if any.
+   */
   constructor(
     public grammar: Grammar,
     public variables: VariableTable,
-    public ignoreCase = false
+    public ignoreCase = false,
+    public def: DF.GrammarImport = grammar.def,
+    public scope: string[] = []
   ) {}
 
   /** Returns every {@link Node} in the repository, sorted by ID. */
-  nodes() {
+  nodes(): Node[] {
     const nodes = new Set<Node>()
 
     for (const obj of this.map.values()) {
       if (obj instanceof Node) nodes.add(obj)
       if ("node" in obj) nodes.add(obj.node)
       if (obj instanceof State && obj.inside instanceof Node) nodes.add(obj.inside)
+      if (obj instanceof Chain && obj.errors) obj.errors.forEach(node => nodes.add(node))
+    }
+
+    for (const repo of this.imports.values()) {
+      for (const node of repo.nodes()) nodes.add(node)
     }
 
     return Array.from(nodes)
@@ -42,13 +86,133 @@ export class Repository {
       .sort((a, b) => a.id - b.id)
   }
 
+  /**
+   * Returns every object stored in the repository, and in the repositories
+   * it imported, along with its name. Names of imported objects are
+   * prefixed with their namespace, e.g. `inline.Bold`.
+   */
+  entries(): [name: string, obj: Node | Rule | State][] {
+    const entries: [string, Node | Rule | State][] = []
+    for (const [name, obj] of this.map) {
+      entries.push([[...this.scope, name].join("."), obj])
+    }
+    for (const repo of this.imports.values()) entries.push(...repo.entries())
+    return entries
+  }
+
   /** Returns a fresh ID for use by a {@link Node}. */
-  id() {
+  id(): number {
+    // imported repositories share IDs with their parent, so that they're unique
+    if (this.parent) return this.parent.id()
     const id = this.curID
     this.curID++
     return id
   }
 
+  /**
+   * Runs a function, with the given path appended to the current location
+   * in the definition. Errors thrown by the function will be located there.
+   *
+   * @param path - The path segment(s) to append.
+   * @param fn - The function to run.
+   */
+  within<T>(path: string | number | (string | number)[], fn: () => T): T {
+    const segments = [path].flat()
+    this.path.push(...segments)
+    try {
+      return fn()
+    } catch (err) {
+      throw GrammarCompileError.from(err).locate(this.key, this.path)
+    } finally {
+      this.path.length -= segments.length
+    }
+  }
+
+  /**
+   * Like {@link within}, except that errors are reported, rather than
+   * thrown. Returns `undefined` if the function failed.
+   *
+   * @param path - The path segment(s) to append.
+   * @param fn - The function to run.
+   */
+  attempt<T>(path: string | number | (string | number)[], fn: () => T): T | undefined {
+    try {
+      return this.within(path, fn)
+    } catch (err) {
+      this.report(err)
+      return undefined
+    }
+  }
+
+  /**
+   * Records an error without stopping compilation. Errors are only ever
+   * recorded once, even if reported repeatedly.
+   *
+   * @param err - The error to report.
+   */
+  report(err: unknown) {
+    const error = GrammarCompileError.from(err).locate(this.key, this.path)
+    if (!this.errors.includes(error)) this.errors.push(error)
+  }
+
+  /**
+   * Runs a function with the current location set to a completely
+   * different place in the definition.
+   *
+   * @param key - The repository key to set.
+   * @param path - The path to set.
+   * @param fn - The function to run.
+   */
+  private relocate<T>(key: string | null, path: (string | number)[], fn: () => T): T {
+    const lastKey = this.key
+    const lastPath = this.path
+    this.key = key
+    this.path = path
+    try {
+      return this.within([], fn)
+    } finally {
+      this.key = lastKey
+      this.path = lastPath
+    }
+  }
+
+  /**
+   * Gets the repository for an imported grammar, creating it if needed.
+   *
+   * @param namespace - The namespace the grammar was imported under.
+   * @param key - The full key being resolved, used for errors.
+   */
+  private imported(namespace: string, key: string) {
+    if (this.imports.has(namespace)) return this.imports.get(namespace)!
+
+    const def = this.def.imports?.[namespace]
+    if (!def) throw new GrammarCompileError(`Import "${namespace}" not found`, "", key)
+
+    // imported grammars can use their own patterns as variables
+    const variables = { ...this.variables }
+    if (def.repository) addPatternVariables(variables, def.repository)
+
+    const scope = [...this.scope, namespace]
+    const repo = new Repository(this.grammar, variables, def.ignoreCase, def, scope)
+    repo.parent = this
+    repo.errors = this.errors
+    repo.sources = this.sources
+
+    this.imports.set(namespace, repo)
+
+    return repo
+  }
+
+  /**
+   * Stores an object under its name before it has finished compiling, so
+   * that it can refer to itself, e.g. a state that can contain itself.
+   *
+   * @param obj - The object to store.
+   */
+  register(obj: Rule | State) {
+    this.map.set(obj.name, obj)
+  }
+
   // repetitive signatures are due to how TypeScript handles overloading
   // it's a bit wacky, but it types nicely
 
@@ -67,11 +231,16 @@ export class Repository {
   add(obj: DF.RepositoryItem, name?: string): Node | Rule | State {
     // match pattern shorthand
     if (typeof obj === "string") {
-      if (!name) throw new Error("name is required for shorthands")
+      if (!name) {
+        throw new GrammarCompileError("A name is required for shorthands", "", obj)
+      }
       const pattern: DF.Pattern = { type: name, emit: false, match: obj }
       return this.add(pattern, name)
     }
 
+    // macro calls are expanded when the definition is resolved
+    if ("macro" in obj) throw unexpanded(obj)
+
     // node open bracket shorthand
     if ("open" in obj) {
       const node: DF.Node = {
@@ -98,8 +267,10 @@ export class Repository {
 
     // reused node
     if ("is" in obj) {
-      const result = this.get(obj.is)!
-      if (!result) throw new Error(`reused node ${obj.is} not found`)
+      const result = this.within("is", () => this.get(obj.is))
+      if (!result) {
+        throw new GrammarCompileError(`Reused node "${obj.is}" not found`, "is", obj.is)
+      }
       return "node" in result ? result.node : result
     }
 
@@ -150,15 +321,29 @@ export class Repository {
    * grammar definition will be checked. Returns `undefined` if nothing can
    * be found.
    *
-   * @param key - The name of the object to get.
+   * @param key - The name of the object to get. Can be namespaced, e.g.
+   *   `inline.Bold`, to get an object from an imported grammar.
    */
-  get(key: string) {
+  get(key: string): Node | Rule | State | undefined {
+    const [namespace, name] = splitNamespace(key)
+    if (namespace) return this.imported(namespace, key).get(name)
+
     const result = this.map.get(key)
 
     // add missing item if possible
     if (!result) {
-      if (this.grammar.def.repository?.[key]) {
-        return this.add(this.grammar.def.repository[key], key)
+      if (this.failed.has(key)) throw this.failed.get(key)
+      if (this.def.repository?.[key]) {
+        try {
+          const qualified = [...this.scope, key].join(".")
+          return this.relocate(qualified, [], () =>
+            this.add(this.def.repository![key], key)
+          )
+        } catch (err) {
+          const error = GrammarCompileError.from(err)
+          this.failed.set(key, error)
+          throw error
+        }
       }
     }
 
@@ -168,14 +353,39 @@ export class Repository {
   /**
    * Processes an `include` from the grammar definition, by name.
    *
-   * @param str - The name of the `include` to process.
+   * @param str - The name of the `include` to process. Can be namespaced,
+   *   like with {@link Repository.get}.
    */
-  include(str: string) {
-    if (!this.grammar.def.includes) throw new Error("no includes defined")
-    if (!this.grammar.def.includes[str]) throw new Error(`include ${str} not found`)
-    return this.grammar.def.includes[str]
-      .map(name => this.get(name)!)
-      .filter(rule => !(rule instanceof Node)) as (Rule | State)[]
+  include(str: string): (Rule | State)[] {
+    const [namespace, name] = splitNamespace(str)
+    if (namespace) return this.imported(namespace, str).include(name)
+
+    if (this.includes.has(str)) return this.includes.get(str)!
+
+    const names = this.def.includes?.[str]
+    if (!names) {
+      const qualified = [...this.scope, str].join(".")
+      throw new GrammarCompileError(`Include "${qualified}" not found`, "", qualified)
+    }
+
+    const path = [...this.scope.flatMap(ns => ["imports", ns]), "includes", str]
+
+    const rules = this.relocate(null, path, () => {
+      const rules: (Rule | State)[] = []
+      names.forEach((name, idx) => {
+        const rule = this.attempt(idx, () => {
+          const rule = this.get(name)
+          if (!rule) throw new GrammarCompileError(`"${name}" not found`, "", name)
+          return rule
+        })
+        if (rule && !(rule instanceof Node)) rules.push(rule)
+      })
+      return rules
+    })
+
+    this.includes.set(str, rules)
+
+    return rules
   }
 
   /**
@@ -184,25 +394,106 @@ export class Repository {
    * @param rules - The list of rules/states/includes to process.
    */
   inside(rules: DF.Inside) {
-    const inside = []
-    for (const rule of rules) {
-      // specifier for a rule
-      if (typeof rule === "string") {
-        const resolved = this.get(rule)
-        if (!(resolved instanceof Rule) && !(resolved instanceof State)) {
-          throw new Error(`Invalid inside rule`)
+    const inside: (Rule | State)[] = []
+    const sources: InsideSource[] = []
+    rules.forEach((rule, idx) => {
+      this.attempt(idx, () => {
+        // specifier for a rule
+        if (typeof rule === "string") {
+          const resolved = this.resolve(rule)
+          inside.push(resolved)
+          sources.push(resolved)
         }
-        inside.push(resolved)
-      }
-      // include
-      else if ("include" in rule) {
-        inside.push(...this.include(rule.include))
-      }
-      // state or rule
-      else {
-        inside.push(this.add(rule))
+        // include
+        else if ("include" in rule) {
+          inside.push(...this.within("include", () => this.include(rule.include)))
+          sources.push({ include: [...this.scope, rule.include].join(".") })
+        }
+        // macro calls are expanded when the definition is resolved
+        else if ("macro" in rule) throw unexpanded(rule)
+        // state or rule
+        else {
+          const added = this.add(rule)
+          inside.push(added)
+          sources.push(added)
+        }
+      })
+    })
+    this.sources.set(inside, sources)
+    return inside
+  }
+
+  /**
+   * Gets a {@link Rule} or {@link State} by name, throwing if it can't be
+   * found or if it's actually a {@link Node}.
+   *
+   * @param name - The name of the rule or state.
+   * @param allowStates - If false, states aren't accepted. Defaults to true.
+   */
+  resolve(name: string, allowStates?: true): Rule | State
+  resolve(name: string, allowStates: false): Rule
+  resolve(name: string, allowStates = true) {
+    const resolved = this.get(name)
+    if (!resolved) throw new GrammarCompileError(`Rule "${name}" not found`, "", name)
+    if (resolved instanceof Rule) return resolved
+    if (allowStates && resolved instanceof State) return resolved
+    const kind = resolved instanceof State ? "a state" : "a node"
+    throw new GrammarCompileError(`"${name}" is ${kind}, not a rule`, "", name)
+  }
+}
+
+/**
+ * An item in an `inside` list, or the include that items came from.
+ * Include names are prefixed with their namespace, if any.
+ */
+export type InsideSource = Rule | State | { include: string }
+
+/**
+ * Splits a key like `namespace.Name` into its namespace and the rest of
+ * the key. The namespace is an empty string if there isn't one.
+ *
+ * @param key - The key to split.
+ */
+function splitNamespace(key: string): [namespace: string, name: string] {
+  const idx = key.indexOf(".")
+  if (idx === -1) return ["", key]
+  return [key.slice(0, idx), key.slice(idx + 1)]
+}
+
+/**
+ * Returns the error for a macro call that wasn't expanded, which can only
+ * happen if the definition wasn't resolved before it was compiled.
+ *
+ * @param call - The macro call.
+ */
+function unexpanded(call: DF.MacroCall) {
+  return new GrammarCompileError(
+    `Macro "${call.macro}" wasn't expanded`,
+    "macro",
+    call.macro
+  )
+}
+
+/**
+ * Adds the patterns of a repository to a variable table, so that they can
+ * be used as `@variables` in other patterns. Patterns that use a matcher
+ * are skipped, as they can't be used inside of other patterns.
+ *
+ * @param variables - The variable table to add to.
+ * @param repository - The repository definition.
+ */
+export function addPatternVariables(
+  variables: VariableTable,
+  repository: Record<string, DF.RepositoryItem>
+) {
+  for (const name in repository) {
+    const value = repository[name]
+    if (typeof value === "string") variables[name] = value
+    else if ("match" in value) {
+      const patterns = [value.match].flat()
+      if (patterns.every((pattern): pattern is string => typeof pattern === "string")) {
+        variables[name] = Array.isArray(value.match) ? patterns : patterns[0]
       }
     }
-    return inside
   }
 }
@@ -2,24 +2,37 @@
  * License, v. 2.0. If a copy of the MPL was not distributed with this
  * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
 
+import { CHAIN_BACKTRACK_LIMIT } from "../../constants"
+import { isRegExpString } from "../../util"
 import type * as DF from "../definition"
+import { GrammarCompileError } from "../error"
 import { Matched } from "../matched"
 import { RegExpMatcher } from "../matchers/regexp"
+import { Node } from "../node"
 import type { Repository } from "../repository"
+import type {
+  SnapshotChain,
+  SnapshotChainGroup,
+  SnapshotChainRule,
+  SnapshotChainTerm,
+  SnapshotReader,
+  SnapshotWriter
+} from "../snapshot"
 import type { GrammarState } from "../state"
 import { Rule } from "./rule"
 
-/** A {@link Rule} subclass that uses *other* {@link Rule}s to chain together matches. */
+/** A {@link Rule} subclass that uses _other_ {@link Rule}s to chain together matches. */
 export class Chain extends Rule {
   /** The internal list of rules and their quantifier types. */
   private declare chain: ChainRule[]
 
   /**
-   * A {@link RegExpMatcher} pattern that, if provided, will be used to skip
-   * characters which are matched. This can be used to skip whitespace in a
-   * chain without making sure every rule actually handles whitespace.
+   * {@link RegExpMatcher} patterns and {@link Rule}s that, if provided, will
+   * be used to skip characters which are matched. This can be used to skip
+   * whitespace in a chain without making sure every rule actually handles
+   * whitespace. Patterns are skipped silently, while rules are emitted.
    */
-  private declare skip?: RegExpMatcher
+  private declare skip?: ChainSkip[]
 
   /**
    * Internal {@link ChainContext} used for keeping track of state when
@@ -27,15 +40,171 @@ export class Chain extends Rule {
    */
   private declare context: ChainContext
 
+  /** True while the rules of this chain are being walked, as chains can recurse. */
+  private declare walking?: boolean
+
+  /**
+   * If true, this chain is matched with a {@link Backtracker}, rather than
+   * greedily with its {@link ChainContext}.
+   */
+  private declare backtrack?: boolean
+
+  /**
+   * How many items of this chain have to match before it can recover from
+   * one that failed to match, if it recovers at all.
+   */
+  private declare recover?: number
+
+  /**
+   * The error nodes emitted when this chain recovers, for each item that
+   * can fail. The node for the item at index `recover` is first.
+   */
+  declare errors?: Node[]
+
   /**
    * @param repo - The {@link Repository} to add this rule to.
    * @param rule - The rule definition.
    */
   constructor(repo: Repository, rule: DF.Chain) {
     super(repo, rule)
-    this.chain = rule.chain.map(item => parseChainRule(repo, item))
+    this.chain = []
+    rule.chain.forEach((item, idx) => {
+      const parsed = repo.attempt(["chain", idx], () => parseChainRule(repo, item))
+      if (parsed) this.chain.push(parsed)
+    })
     if (rule.skip) {
-      this.skip = new RegExpMatcher(rule.skip, repo.ignoreCase, repo.variables)
+      const list = Array.isArray(rule.skip)
+      const skip: ChainSkip[] = []
+      const items = [rule.skip].flat()
+      items.forEach((item, idx) => {
+        const path = list ? ["skip", idx] : "skip"
+        const compiled = repo.attempt(path, () => skipItem(repo, item))
+        if (compiled) skip.push(compiled)
+      })
+      this.skip = skip
+    }
+    if (rule.backtrack) this.backtrack = true
+    if (rule.recover) {
+      const recover = rule.recover === true ? 1 : rule.recover
+      repo.attempt("recover", () => {
+        if (!Number.isInteger(recover) || recover < 1) {
+          throw new GrammarCompileError(
+            "Expected a boolean or a positive integer",
+            "",
+            recover
+          )
+        }
+        this.recover = recover
+        this.errors = rule.chain.slice(recover).map(
+          (item, idx) =>
+            new Node(repo.id(), {
+              type: `${this.name}_Expected${recover + idx}`,
+              emit: `⚠️ Expected ${item.trim()}`,
+              error: true
+            })
+        )
+      })
+    }
+    this.context = new ChainContext(this.chain, this.skip)
+  }
+
+  /** Returns the steps of this chain, in the order they're matched. */
+  steps(): ChainStep[] {
+    return this.chain.map(rule => {
+      switch (rule[1]) {
+        case Quantifier.ALTERNATIVES: {
+          const rules = rule[0].map(([item, type]) => [item, QUANTIFIERS[type]])
+          return { rules, combinator: "|" } as ChainStep
+        }
+        case Quantifier.REPEATING_ZERO_OR_MORE:
+        case Quantifier.REPEATING_ONE_OR_MORE: {
+          const combinator = rule[1] === Quantifier.REPEATING_ZERO_OR_MORE ? "|*" : "|+"
+          return { rules: rule[0].map(item => [item, ""]), combinator } as ChainStep
+        }
+        case Quantifier.GROUP: {
+          return { rules: groupRules(rule[0]), combinator: "()" } as ChainStep
+        }
+        default: {
+          return { rules: [[rule[0], QUANTIFIERS[rule[1]]]] } as ChainStep
+        }
+      }
+    })
+  }
+
+  /** Returns the rules that are skipped before each step, which are emitted. */
+  skipRules(): Rule[] {
+    return this.skip?.filter((item): item is Rule => item instanceof Rule) ?? []
+  }
+
+  protected firstPoints() {
+    // skipped characters could be anything
+    if (this.skip || this.walking) return null
+    this.walking = true
+    const points = chainFirstPoints(this.chain)
+    this.walking = false
+    return points
+  }
+
+  protected patternReach() {
+    if (this.walking) return { behind: Infinity, ahead: Infinity }
+    this.walking = true
+    const reach = chainReach(this.chain)
+    if (this.skip) {
+      // skipping is greedy, so it can advance by any amount, but nothing
+      // skipped looks further behind than it would without skipping
+      for (const item of this.skip) {
+        reach.behind = Math.max(reach.behind, item.reach().behind)
+      }
+      reach.ahead = Infinity
+    }
+    this.walking = false
+    return reach
+  }
+
+  /**
+   * @param writer - The {@link SnapshotWriter} to serialize referenced
+   *   rules and nodes with.
+   */
+  snapshot(writer: SnapshotWriter): SnapshotChain {
+    const snapshot: SnapshotChain = {
+      kind: "chain",
+      ...this.snapshotOptions(writer),
+      chain: this.chain.map(rule => snapshotChainRule(writer, rule))
+    }
+    if (this.skip) {
+      const skip = this.skip.map(item =>
+        item instanceof Rule ? writer.item(item) : item.snapshot()
+      )
+      // a single pattern is written as it is, as it was before rules could be skipped
+      snapshot.skip = skip.length === 1 && typeof skip[0] === "string" ? skip[0] : skip
+    }
+    if (this.backtrack) snapshot.backtrack = true
+    if (this.recover) {
+      snapshot.recover = this.recover
+      snapshot.errors = this.errors!.map(node => writer.node(node))
+    }
+    return snapshot
+  }
+
+  /**
+   * @param reader - The {@link SnapshotReader} to restore referenced rules
+   *   and nodes with.
+   * @param snapshot - The serialized rule.
+   */
+  restore(reader: SnapshotReader, snapshot: SnapshotChain) {
+    this.restoreOptions(reader, snapshot)
+    this.chain = snapshot.chain.map(rule => restoreChainRule(reader, rule))
+    if (snapshot.skip) {
+      this.skip = [snapshot.skip]
+        .flat()
+        .map(item =>
+          typeof item === "number" ? reader.rule(item) : new RegExpMatcher(item)
+        )
+    }
+    if (snapshot.backtrack) this.backtrack = true
+    if (snapshot.recover) {
+      this.recover = snapshot.recover
+      this.errors = snapshot.errors!.map(id => reader.node(id))
     }
     this.context = new ChainContext(this.chain, this.skip)
   }
@@ -46,11 +215,58 @@ export class Chain extends Rule {
    * @param pos - The position to start matching at.
    */
   exec(str: string, pos: number, state: GrammarState) {
-    this.context.reset(state, str, pos)
-    while (!this.context.done) step(this.context)
-    const finished = this.context.finish()
-    if (!finished) return null
-    return new Matched(state, this.node, this.context.total, pos, finished)
+    if (this.backtrack) {
+      // a new backtracker each time, as this chain could be inside of itself
+      const recovering = Boolean(this.recover)
+      const backtracker = new Backtracker(this.chain, state, str, this.skip, recovering)
+      const results = backtracker.match(pos)
+      if (!results) {
+        const { furthest } = backtracker
+        if (!this.recover || !furthest) return null
+        state.context = furthest.context
+        state.last = furthest.last
+        return this.recovered(state, str, pos, furthest)
+      }
+      const last = results[results.length - 1]
+      const total = str.slice(pos, last.from + last.length)
+      return new Matched(state, this.node, total, pos, results)
+    }
+
+    const ctx = this.context
+    ctx.reset(state, str, pos)
+    while (!ctx.done) step(ctx)
+    const finished = ctx.finish()
+    if (!finished) {
+      if (!this.recover || !ctx.failed) return null
+      const failure = { index: ctx.expected, pos: ctx.pos, results: ctx.results ?? [] }
+      return this.recovered(state, str, pos, failure)
+    }
+    return new Matched(state, this.node, ctx.total, pos, finished)
+  }
+
+  /**
+   * Returns the match of this chain when an item failed to match, which is
+   * what matched before it, followed by the error node for the item.
+   * Returns `null` if too few items matched, or if nothing was matched.
+   *
+   * @param state - The current {@link GrammarState}.
+   * @param str - The string being matched.
+   * @param pos - The position the chain started at.
+   * @param failure - Where the chain failed, and what it had matched.
+   */
+  private recovered(
+    state: GrammarState,
+    str: string,
+    pos: number,
+    failure: ChainFailure
+  ) {
+    const { index, results } = failure
+    if (index < this.recover! || !results.length || failure.pos === pos) return null
+    const error = new Matched(state, this.errors![index - this.recover!], "", failure.pos)
+    return new Matched(state, this.node, str.slice(pos, failure.pos), pos, [
+      ...results,
+      error
+    ])
   }
 }
 
@@ -166,7 +382,247 @@ function step(ctx: ChainContext) {
       ctx.advanced = null
       break
     }
+
+    case Quantifier.GROUP: {
+      if (matchGroup(ctx, ctx.current[0])) ctx.advance()
+      else ctx.fail()
+      break
+    }
+  }
+}
+
+/**
+ * Matches a group once, trying each of its alternatives in order. The
+ * first alternative whose terms all match is kept, and an alternative that
+ * fails partway through is undone. Returns true if the group matched.
+ */
+function matchGroup(ctx: ChainContext, group: ChainGroup) {
+  for (const terms of group) {
+    const mark = ctx.mark()
+    if (terms.every(term => matchTerm(ctx, term))) return true
+    ctx.rewind(mark)
+  }
+  return false
+}
+
+/**
+ * Matches a term of a group as many times as it can, up to what its
+ * quantifier allows. Returns true if it matched enough times. A predicate
+ * is only checked, and never consumes anything.
+ */
+function matchTerm(ctx: ChainContext, [item, min, max, predicate]: ChainTerm) {
+  if (predicate) {
+    ctx.skip()
+    return lookahead(ctx, item) === (predicate === "&")
+  }
+
+  let count = 0
+  while (count < max) {
+    ctx.skip()
+    const pos = ctx.pos
+    if (item instanceof Rule) {
+      const result = item.match(ctx.state, ctx.str, ctx.pos)
+      if (!result) break
+      ctx.add(result)
+    } else if (!matchGroup(ctx, item)) {
+      break
+    }
+    count++
+    // matching nothing would just repeat forever
+    if (ctx.pos === pos) break
   }
+  return count >= min
+}
+
+/**
+ * Returns true if a rule or group matches at the current position of a
+ * chain, without advancing the chain. The rule or group is matched with a
+ * clone of the {@link GrammarState}, like {@link ChainContext.nextMatches}.
+ */
+function lookahead(ctx: ChainContext, item: Rule | ChainGroup) {
+  const { state } = ctx
+  ctx.state = state.clone()
+  const mark = ctx.mark()
+  const matched =
+    item instanceof Rule
+      ? Boolean(item.match(ctx.state, ctx.str, ctx.pos))
+      : matchGroup(ctx, item)
+  ctx.rewind(mark)
+  ctx.state = state
+  return matched
+}
+
+/**
+ * Returns every rule in a group, including those in nested groups, with
+ * their quantifier suffixes.
+ */
+function groupRules(group: ChainGroup): ChainStep["rules"] {
+  return group.flatMap(terms =>
+    terms.flatMap((term): ChainStep["rules"] =>
+      term[0] instanceof Rule ? [[term[0], termSuffix(term)]] : groupRules(term[0])
+    )
+  )
+}
+
+/**
+ * Returns the quantifier suffix of a term, e.g. `?` or `{1,6}`, or its
+ * predicate prefix, if it's a predicate.
+ */
+function termSuffix([, min, max, predicate]: ChainTerm): ChainStep["rules"][0][1] {
+  if (predicate) return predicate
+  if (min === max) return min === 1 ? "" : `{${min}}`
+  if (min === 0 && max === 1) return "?"
+  if (max === Infinity && min <= 1) return min ? "+" : "*"
+  return `{${min},${max === Infinity ? "" : max}}`
+}
+
+/** Returns true if a group has to match something, i.e. it can't match nothing. */
+function groupRequired(group: ChainGroup): boolean {
+  return group.every(terms =>
+    terms.some(
+      ([item, min, , predicate]) =>
+        !predicate && min > 0 && (item instanceof Rule || groupRequired(item))
+    )
+  )
+}
+
+/**
+ * Returns how far around the position a group is matched at its rules can
+ * look, in the same way as {@link chainReach}.
+ */
+function groupReach(group: ChainGroup) {
+  let behind = 0
+  let ahead = 0
+  for (const terms of group) {
+    let sequence = 0
+    for (const [item, , max] of terms) {
+      const reach = item instanceof Rule ? item.reach() : groupReach(item)
+      behind = Math.max(behind, reach.behind)
+      sequence += max === 1 ? reach.ahead : Infinity
+    }
+    ahead = Math.max(ahead, sequence)
+  }
+  return { behind, ahead }
+}
+
+/**
+ * Returns true if any of the alternatives of a group starts with a rule
+ * that matches. Used by {@link ChainContext.nextMatches}. Terms are walked
+ * like they're matched, so predicates are checked, and terms that can
+ * match nothing, e.g. `A?` or `A{0,2}`, are passed over if they don't match.
+ */
+function groupStarts(ctx: ChainContext, group: ChainGroup) {
+  return group.some(terms => {
+    for (const [item, min, , predicate] of terms) {
+      if (predicate) {
+        // predicates don't consume anything, so the next term starts here too
+        if (lookahead(ctx, item) !== (predicate === "&")) return false
+        continue
+      }
+      const starts =
+        item instanceof Rule
+          ? Boolean(item.match(ctx.state.clone(), ctx.str, ctx.pos))
+          : groupStarts(ctx, item)
+      if (starts) return true
+      if (min > 0 && (item instanceof Rule || groupRequired(item))) return false
+    }
+    return false
+  })
+}
+
+/**
+ * Returns the code points the first match of a chain can start with. Any
+ * optional steps at the start of the chain may not match, so steps are
+ * walked until one of them has to. If every step is optional, one of them
+ * still has to match, as a chain can't match nothing.
+ */
+function chainFirstPoints(chain: ChainRule[]) {
+  const points = new Set<number>()
+
+  for (const rule of chain) {
+    let rules: Rule[]
+    let required: boolean
+
+    switch (rule[1]) {
+      case Quantifier.ALTERNATIVES: {
+        rules = rule[0].map(([item]) => item)
+        // alternatives only fail if one of them isn't optional
+        required = rule[0].some(
+          ([, type]) => type === Quantifier.ONE || type === Quantifier.ONE_OR_MORE
+        )
+        break
+      }
+      case Quantifier.REPEATING_ZERO_OR_MORE:
+      case Quantifier.REPEATING_ONE_OR_MORE: {
+        rules = rule[0]
+        required = rule[1] === Quantifier.REPEATING_ONE_OR_MORE
+        break
+      }
+      case Quantifier.GROUP: {
+        // any rule of the group could be first, as the ones before it may not match
+        rules = groupRules(rule[0]).map(([item]) => item)
+        required = groupRequired(rule[0])
+        break
+      }
+      default: {
+        rules = [rule[0]]
+        required = rule[1] === Quantifier.ONE || rule[1] === Quantifier.ONE_OR_MORE
+      }
+    }
+
+    for (const item of rules) {
+      const first = item.first()
+      if (!first) return null
+      first.forEach(point => points.add(point))
+    }
+
+    if (required) break
+  }
+
+  return points
+}
+
+/**
+ * Returns how far around the position a chain is matched at its rules can
+ * look. Each step starts where the previous one ended, so the distances
+ * ahead are added together. Any repetition makes the chain unbounded.
+ */
+function chainReach(chain: ChainRule[]) {
+  let behind = 0
+  let ahead = 0
+
+  const reachOf = (rule: Rule, type: Quantifier) => {
+    const reach = rule.reach()
+    behind = Math.max(behind, reach.behind)
+    if (type === Quantifier.ONE || type === Quantifier.OPTIONAL) return reach.ahead
+    return Infinity
+  }
+
+  for (const rule of chain) {
+    switch (rule[1]) {
+      case Quantifier.ALTERNATIVES: {
+        ahead += Math.max(...rule[0].map(([item, type]) => reachOf(item, type)))
+        break
+      }
+      case Quantifier.REPEATING_ZERO_OR_MORE:
+      case Quantifier.REPEATING_ONE_OR_MORE: {
+        for (const item of rule[0]) reachOf(item, rule[1])
+        ahead = Infinity
+        break
+      }
+      case Quantifier.GROUP: {
+        const reach = groupReach(rule[0])
+        behind = Math.max(behind, reach.behind)
+        ahead += reach.ahead
+        break
+      }
+      default: {
+        ahead += reachOf(rule[0], rule[1])
+      }
+    }
+  }
+
+  return { behind, ahead }
 }
 
 /** Utility function for running a rule as many times as possible. */
@@ -196,7 +652,41 @@ enum Quantifier {
   /** Rule names separated by `|*` pipes. */
   REPEATING_ZERO_OR_MORE,
   /** Rule names separated by `|+` pipes. */
-  REPEATING_ONE_OR_MORE
+  REPEATING_ONE_OR_MORE,
+  /** Sequences or parenthesized groups, e.g. `(A | B C)+`. */
+  GROUP
+}
+
+/** The suffixes of the quantifiers that apply to a single rule. */
+const QUANTIFIERS = {
+  [Quantifier.ONE]: "",
+  [Quantifier.OPTIONAL]: "?",
+  [Quantifier.ZERO_OR_MORE]: "*",
+  [Quantifier.ONE_OR_MORE]: "+"
+} as const
+
+/** The fewest and most times a rule can match, for each quantifier of a single rule. */
+const BOUNDS = {
+  [Quantifier.ONE]: [1, 1],
+  [Quantifier.OPTIONAL]: [0, 1],
+  [Quantifier.ZERO_OR_MORE]: [0, Infinity],
+  [Quantifier.ONE_OR_MORE]: [1, Infinity]
+} as const
+
+/** A step of a {@link Chain}, as returned by {@link Chain.steps}. */
+export interface ChainStep {
+  /**
+   * The rules that can match, and the quantifier suffix of each. Rules in
+   * groups can also have a `{m,n}` suffix, or be an `&` or `!` predicate.
+   */
+  rules: [rule: Rule, quantifier: "" | "?" | "*" | "+" | `{${string}}` | "&" | "!"][]
+
+  /**
+   * How the rules are combined, if the step is a list of alternatives, or
+   * `()` if the step is a group, in which case every rule in the group is
+   * listed, including those in nested groups.
+   */
+  combinator?: "|" | "|*" | "|+" | "()"
 }
 
 // prettier-ignore
@@ -207,6 +697,24 @@ type ChainRuleSimple = [Rule,
   | Quantifier.ONE_OR_MORE
 ]
 
+/**
+ * A group of a chain item, e.g. `(A | B C)`. Each alternative is a
+ * sequence of terms, which all have to match, in order.
+ */
+type ChainGroup = ChainTerm[][]
+
+/**
+ * A rule or nested group in a sequence, and the fewest and most times it
+ * can match. A predicate instead has to match (`&`), or not match (`!`),
+ * without consuming anything.
+ */
+type ChainTerm = [
+  item: Rule | ChainGroup,
+  min: number,
+  max: number,
+  predicate?: "&" | "!"
+]
+
 // prettier-ignore
 type ChainRule =
   | ChainRuleSimple
@@ -215,6 +723,37 @@ type ChainRule =
       | Quantifier.REPEATING_ZERO_OR_MORE
       | Quantifier.REPEATING_ONE_OR_MORE
     ]
+  | [ChainGroup, Quantifier.GROUP]
+
+/** A skip pattern, which is skipped silently, or a skip rule, which is emitted. */
+type ChainSkip = RegExpMatcher | Rule
+
+/** Where a chain failed to match, for recovering from it. */
+interface ChainFailure {
+  /** The index of the item that failed to match. */
+  index: number
+  /** The position the item was matched at. */
+  pos: number
+  /** The results of the items before it. */
+  results: Matched[]
+}
+
+/** How far a {@link ChainContext} has gotten, so that it can be rewound. */
+interface ChainMark {
+  pos: number
+  total: string
+  results: number
+  context: Record<string, string>
+  last: GrammarState["last"]
+  settled: ChainSettled
+}
+
+/** Where the last item of a chain that wasn't skipped ended. */
+interface ChainSettled {
+  pos: number
+  total: string
+  results: number
+}
 
 /** Class used for tracking the state of a in progress chain match. */
 class ChainContext {
@@ -242,24 +781,33 @@ class ChainContext {
   /** If true, the current match has failed. */
   declare failed: boolean
 
+  /** The index of the rule that failed to match, if the match failed. */
+  declare expected: number
+
   /** Used for keeping track of state with the `REPEATING` quantifiers. */
   declare advanced: boolean | null
 
   /**
-   * A skip pattern to use.
+   * Where the last item that wasn't skipped ended, so that skipped text
+   * after it can be undone.
+   */
+  declare settled: ChainSettled
+
+  /**
+   * Skip patterns and rules to use.
    *
    * @see {@link Chain}
    */
-  declare skipMatcher?: RegExpMatcher
+  declare skipItems?: ChainSkip[]
 
-  constructor(rules: ChainRule[], skip?: RegExpMatcher) {
+  constructor(rules: ChainRule[], skip?: ChainSkip[]) {
     this.rules = rules
     this.total = ""
     this.index = 0
     this.failed = false
     this.advanced = null
     this.results = null
-    if (skip) this.skipMatcher = skip
+    if (skip) this.skipItems = skip
   }
 
   /** True if the running match has finished. */
@@ -273,17 +821,66 @@ class ChainContext {
     return this.rules[this.index]
   }
 
-  /** Adds a {@link Matched} to the result list. */
-  add(result: Matched) {
+  /**
+   * Adds a {@link Matched} to the result list.
+   *
+   * @param result - The result to add.
+   * @param skipped - If true, the result is of a skip rule.
+   */
+  add(result: Matched, skipped = false) {
     if (!this.results) this.results = []
     this.results.push(result)
     this.total += result.total
     this.pos += result.length
+    if (!skipped) {
+      const { pos, total, results } = this
+      this.settled = { pos, total, results: results.length }
+    }
+  }
+
+  /** Returns a {@link ChainMark} of how far the match has gotten. */
+  mark(): ChainMark {
+    const { context, last } = this.state
+    const results = this.results?.length ?? 0
+    const { pos, total, settled } = this
+    return { pos, total, results, context, last, settled }
+  }
+
+  /**
+   * Undoes everything matched since a {@link ChainMark} was made.
+   *
+   * @param mark - The mark to rewind to.
+   */
+  rewind(mark: ChainMark) {
+    this.pos = mark.pos
+    this.total = mark.total
+    if (this.results) this.results.length = mark.results
+    if (!mark.results) this.results = null
+    this.state.context = mark.context
+    this.state.last = mark.last
+    this.settled = mark.settled
+  }
+
+  /**
+   * Undoes anything skipped after the last item that matched, so that a
+   * chain never ends on skipped text.
+   */
+  unskip() {
+    const { pos, total, results } = this.settled
+    this.pos = pos
+    this.total = total
+    if (this.results) this.results.length = results
+    if (!results) this.results = null
   }
 
-  /** Sets the match to have failed. */
+  /**
+   * Sets the match to have failed. Skipped text is undone, so that a
+   * recovered chain's error node is placed before it, like it is when backtracking.
+   */
   fail() {
+    this.unskip()
     this.failed = true
+    this.expected = this.index
     this.index = this.rules.length
   }
 
@@ -302,7 +899,9 @@ class ChainContext {
    * objects will be returned.
    */
   finish() {
-    return this.failed ? null : this.results
+    if (this.failed) return null
+    this.unskip()
+    return this.results
   }
 
   /**
@@ -337,18 +936,29 @@ class ChainContext {
           const result = rule[0][i].match(state, this.str, this.pos)
           if (result) return true
         }
+        break
+      }
+      case Quantifier.GROUP: {
+        if (groupStarts(this, rule[0])) return true
       }
     }
     return false
   }
 
-  /** Greedy consumes any characters matched by the `skip` pattern. */
+  /**
+   * Greedy consumes any characters matched by the `skip` patterns and
+   * rules. Rules are added to the results, so that they're emitted.
+   */
   skip() {
-    if (!this.skipMatcher) return
+    if (!this.skipItems) return
     let result
-    while ((result = this.skipMatcher.match(this.str, this.pos))) {
-      this.pos += result.length
-      this.total += result.total
+    while ((result = skipMatch(this.skipItems, this.state, this.str, this.pos))) {
+      if (result instanceof Matched) {
+        this.add(result, true)
+      } else {
+        this.pos += result.length
+        this.total += result.total
+      }
     }
   }
 
@@ -362,19 +972,332 @@ class ChainContext {
     this.failed = false
     this.advanced = null
     this.results = null
+    this.settled = { pos, total: "", results: 0 }
   }
 }
 
+/**
+ * Matches a chain with backtracking. Quantified items match as many times
+ * as they can, and alternatives are tried in order, but if a later item
+ * fails, an item is retried with one fewer repetition, or with its next
+ * alternative. The rules of the chain are matched as a whole, so a rule
+ * that matched is never retried to match differently.
+ *
+ * Every rule that is tried counts against the
+ * {@link CHAIN_BACKTRACK_LIMIT}, and the chain fails to match if the limit
+ * is reached, as some chains could otherwise take exponential time to fail.
+ */
+class Backtracker {
+  /** The results of the rules that have matched so far. */
+  private results: Matched[] = []
+
+  /** How many more times a rule can be tried. */
+  private budget = CHAIN_BACKTRACK_LIMIT
+
+  /**
+   * The furthest the chain got before failing to match, i.e. the item with
+   * the highest index that was tried, and the state at the time.
+   */
+  furthest?: ChainFailure & Pick<GrammarState, "context" | "last">
+
+  /**
+   * @param chain - The list of rules to match with.
+   * @param state - The current {@link GrammarState}.
+   * @param str - The string to match.
+   * @param skipItems - Skip patterns and rules to use, which are tried
+   *   before each rule.
+   * @param recovering - If true, {@link Backtracker.furthest} is kept track of.
+   */
+  constructor(
+    private chain: ChainRule[],
+    private state: GrammarState,
+    private str: string,
+    private skipItems?: ChainSkip[],
+    private recovering = false
+  ) {}
+
+  /**
+   * Matches the chain, returning the results of the rules that matched, or
+   * `null` if the chain didn't match. A chain can't match nothing, so at
+   * least one rule has to match.
+   *
+   * @param pos - The position to start matching at.
+   */
+  match(pos: number) {
+    if (!this.steps(0, pos) || !this.results.length) return null
+    return this.results
+  }
+
+  /**
+   * Matches the items of the chain, starting with the item at `index`.
+   * Returns true if every item matched.
+   *
+   * @param index - The index of the first item to match.
+   * @param pos - The position to start matching at.
+   */
+  private steps(index: number, pos: number): boolean {
+    // running out of budget fails the match, even if it could still succeed
+    if (this.budget < 0) return false
+    if (index >= this.chain.length) return true
+
+    if (this.recovering) this.reached(index, pos)
+
+    const rule = this.chain[index]
+    const next = (pos: number) => this.steps(index + 1, pos)
+
+    switch (rule[1]) {
+      case Quantifier.ALTERNATIVES: {
+        // alternatives that can match nothing only do so if none of them match
+        let optional = false
+        for (const [item, type] of rule[0]) {
+          const [min, max] = BOUNDS[type]
+          if (this.repeat([item], Math.max(min, 1), max, pos, 0, next)) return true
+          if (min === 0) optional = true
+        }
+        return optional && next(pos)
+      }
+
+      case Quantifier.REPEATING_ZERO_OR_MORE:
+        return this.repeat(rule[0], 0, Infinity, pos, 0, next)
+
+      case Quantifier.REPEATING_ONE_OR_MORE:
+        return this.repeat(rule[0], 1, Infinity, pos, 0, next)
+
+      case Quantifier.GROUP:
+        return this.group(rule[0], pos, next)
+
+      default: {
+        const [min, max] = BOUNDS[rule[1]]
+        return this.repeat([rule[0]], min, max, pos, 0, next)
+      }
+    }
+  }
+
+  /**
+   * Updates {@link Backtracker.furthest}, if an item was reached that's
+   * further than any before it.
+   *
+   * @param index - The index of the item.
+   * @param pos - The position the item is matched at.
+   */
+  private reached(index: number, pos: number) {
+    const { furthest } = this
+    if (
+      furthest &&
+      (index < furthest.index || (index === furthest.index && pos <= furthest.pos))
+    ) {
+      return
+    }
+    const { context, last } = this.state
+    this.furthest = { index, pos, results: this.results.slice(), context, last }
+  }
+
+  /**
+   * Matches a group, trying each of its alternatives in order, and then
+   * matches the rest of the chain. Returns true if the rest of the chain matched.
+   *
+   * @param group - The group to match.
+   * @param pos - The position to start matching at.
+   * @param next - Matches the rest of the chain.
+   */
+  private group(group: ChainGroup, pos: number, next: (pos: number) => boolean) {
+    for (const terms of group) {
+      if (this.sequence(terms, 0, pos, next)) return true
+      if (this.budget < 0) return false
+    }
+    return false
+  }
+
+  /**
+   * Matches the terms of a sequence, starting with the term at `index`,
+   * and then matches the rest of the chain. Returns true if the rest of
+   * the chain matched.
+   *
+   * @param terms - The terms of the sequence.
+   * @param index - The index of the first term to match.
+   * @param pos - The position to start matching at.
+   * @param next - Matches the rest of the chain.
+   */
+  private sequence(
+    terms: ChainTerm[],
+    index: number,
+    pos: number,
+    next: (pos: number) => boolean
+  ): boolean {
+    if (index >= terms.length) return next(pos)
+    const [item, min, max, predicate] = terms[index]
+    if (predicate) {
+      if (this.lookahead(item, pos) !== (predicate === "&")) return false
+      return this.sequence(terms, index + 1, pos, next)
+    }
+    return this.repeat([item], min, max, pos, 0, end =>
+      this.sequence(terms, index + 1, end, next)
+    )
+  }
+
+  /**
+   * Matches a list of rules or groups repeatedly, where each repetition is
+   * the first of them that matches, and then matches the rest of the
+   * chain. More repetitions are tried first. Returns true if the rest of
+   * the chain matched.
+   *
+   * @param items - The rules or groups to repeat.
+   * @param min - The fewest repetitions allowed.
+   * @param max - The most repetitions allowed.
+   * @param pos - The position to match the next repetition at.
+   * @param count - How many repetitions have matched so far.
+   * @param next - Matches the rest of the chain.
+   */
+  private repeat(
+    items: (Rule | ChainGroup)[],
+    min: number,
+    max: number,
+    pos: number,
+    count: number,
+    next: (pos: number) => boolean
+  ): boolean {
+    if (count < max) {
+      for (const item of items) {
+        // matching nothing would just repeat forever
+        const matched = this.item(item, pos, end =>
+          end === pos
+            ? count + 1 >= min && next(end)
+            : this.repeat(items, min, max, end, count + 1, next)
+        )
+        if (matched) return true
+        if (this.budget < 0) return false
+      }
+    }
+
+    return count >= min && next(pos)
+  }
+
+  /**
+   * Matches a single rule or group, and then calls `next` with where it
+   * ended. If `next` returns false, the match is undone. Returns what
+   * `next` returned, or false if the rule or group didn't match.
+   *
+   * @param item - The rule or group to match.
+   * @param pos - The position to match at.
+   * @param next - Matches whatever comes after the rule or group.
+   */
+  private item(
+    item: Rule | ChainGroup,
+    pos: number,
+    next: (pos: number) => boolean
+  ): boolean {
+    if (!(item instanceof Rule)) return this.group(item, pos, next)
+
+    const { context, last } = this.state
+
+    const matched = this.attempt(item, pos)
+    if (!matched) return false
+
+    const end = matched[matched.length - 1]
+    this.results.push(...matched)
+    if (next(end.from + end.length)) return true
+
+    this.results.length -= matched.length
+    this.state.context = context
+    this.state.last = last
+    return false
+  }
+
+  /**
+   * Returns true if a rule or group matches at a position, without keeping
+   * anything it matched. It's matched with a clone of the
+   * {@link GrammarState}, so the state is left as it was.
+   *
+   * @param item - The rule or group to match.
+   * @param pos - The position to match at.
+   */
+  private lookahead(item: Rule | ChainGroup, pos: number) {
+    const { state } = this
+    const results = this.results.length
+    this.state = state.clone()
+    const matched = this.item(item, pos, () => true)
+    this.results.length = results
+    this.state = state
+    return matched
+  }
+
+  /**
+   * Tries to match a rule, after skipping anything matched by the skip
+   * patterns and rules. Returns the results of any skipped rules, followed
+   * by the result of the rule, or `null` if the rule didn't match, or the
+   * budget ran out.
+   *
+   * @param rule - The rule to match.
+   * @param pos - The position to match at.
+   */
+  private attempt(rule: Rule, pos: number) {
+    if (--this.budget < 0) return null
+    const results: Matched[] = []
+    if (this.skipItems) {
+      let result
+      while ((result = skipMatch(this.skipItems, this.state, this.str, pos))) {
+        if (result instanceof Matched) results.push(result)
+        pos += result.length
+      }
+    }
+    const matched = rule.match(this.state, this.str, pos)
+    if (!matched) return null
+    results.push(matched)
+    return results
+  }
+}
+
+/**
+ * Compiles an item of the `skip` option of a chain. Regexes are skipped
+ * silently, and anything else is a rule, which is emitted.
+ *
+ * @param repo - The {@link Repository} to resolve and add rules with.
+ * @param item - The skip item.
+ */
+function skipItem(repo: Repository, item: DF.Regex | string | DF.Rule): ChainSkip {
+  if (typeof item !== "string") return repo.add(item)
+  if (isRegExpString(item)) {
+    return new RegExpMatcher(item, repo.ignoreCase, repo.variables)
+  }
+  return repo.resolve(item, false)
+}
+
+/**
+ * Returns the first skip pattern or rule that matches at a position, or
+ * `null` if none of them do. Empty matches are ignored, as they'd be
+ * skipped forever.
+ *
+ * @param items - The skip patterns and rules.
+ * @param state - The current {@link GrammarState}.
+ * @param str - The string to match.
+ * @param pos - The position to match at.
+ */
+function skipMatch(items: ChainSkip[], state: GrammarState, str: string, pos: number) {
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]
+    const result =
+      item instanceof Rule ? item.match(state, str, pos) : item.match(str, pos)
+    if (result?.length) return result
+  }
+  return null
+}
+
 /**
  * Parses a chain rule string, and returns the rule(s) it specifies and
- * what type of quantifier it uses.
+ * what type of quantifier it uses. Strings with groups or sequences, e.g.
+ * `(A | B C)+`, are parsed by a {@link ChainParser}.
  */
 function parseChainRule(repo: Repository, str: string): ChainRule {
+  // a sequence is two names without a pipe between them, e.g. `A B`
+  if (/[(){}&!]/.test(str) || /[^\s|]\s+[^\s|]/.test(str.replace(/\|[*+]?/g, "|"))) {
+    return [new ChainParser(repo, str).parse(), Quantifier.GROUP]
+  }
+
   const repeatAlternatives = /\|[*+]/.test(str)
   const normalAlternatives = /\|(?![*+])/.test(str)
 
   if (repeatAlternatives && normalAlternatives) {
-    throw new Error("Cannot mix |* (or |+) and |")
+    throw new GrammarCompileError("Cannot mix |* (or |+) and |", "", str)
   }
 
   if (!repeatAlternatives && !normalAlternatives) {
@@ -390,10 +1313,7 @@ function parseChainRule(repo: Repository, str: string): ChainRule {
       str = str.slice(0, str.length - 1)
     }
 
-    const rule = repo.get(str)
-    if (!(rule instanceof Rule)) throw new Error(`Rule "${str}" not found`)
-
-    return [rule, type]
+    return [repo.resolve(str, false), type]
   }
   // normal alternatives
   else if (normalAlternatives) {
@@ -406,20 +1326,234 @@ function parseChainRule(repo: Repository, str: string): ChainRule {
     const oneOrMore = /\|\+/.test(str)
 
     if (zeroOrMore && oneOrMore) {
-      throw new Error("Cannot have repeating alternatives with both * and +")
+      throw new GrammarCompileError(
+        "Cannot have repeating alternatives with both * and +",
+        "",
+        str
+      )
     }
 
-    const rules = str.split(/\s*\|[*+]?\s*/).map(item => repo.get(item))
-
-    if (rules.some(rule => !(rule instanceof Rule))) {
-      throw new Error(`Rule "${str}" not found`)
-    }
+    const rules = str.split(/\s*\|[*+]?\s*/).map(item => repo.resolve(item, false))
 
     return [
-      rules as Rule[],
+      rules,
       zeroOrMore ? Quantifier.REPEATING_ZERO_OR_MORE : Quantifier.REPEATING_ONE_OR_MORE
     ]
   }
 
   throw new Error("Unreachable")
 }
+
+/**
+ * Parses a chain rule string with groups, e.g. `(Key Equals Value)*`, into
+ * a {@link ChainGroup}. The grammar is:
+ *
+ * ```text
+ * alternatives = sequence ("|" sequence)*
+ * sequence     = term+
+ * term         = ("&" | "!") atom | atom quantifier?
+ * atom         = name | "(" alternatives ")"
+ * quantifier   = "?" | "*" | "+" | "{" min ("," max?)? "}"
+ * ```
+ */
+class ChainParser {
+  /** The tokens of the string. */
+  private declare tokens: string[]
+
+  /** The index of the next token. */
+  private declare index: number
+
+  /**
+   * @param repo - The {@link Repository} to resolve rule names with.
+   * @param str - The chain rule string.
+   */
+  constructor(private repo: Repository, private str: string) {
+    this.tokens = str.match(/\|[*+]|[()|?*+&!]|\{[^}]*\}?|[^\s()|?*+&!{}]+/g) ?? []
+    this.index = 0
+  }
+
+  /** Parses the whole string as a list of alternatives. */
+  parse() {
+    const group = this.alternatives()
+    if (this.index < this.tokens.length) throw this.error(`Unexpected "${this.peek()}"`)
+    return group
+  }
+
+  /** Returns the next token, without consuming it. */
+  private peek(): string | undefined {
+    return this.tokens[this.index]
+  }
+
+  /** Parses sequences separated by `|` pipes. */
+  private alternatives(): ChainGroup {
+    const alternatives = [this.sequence()]
+    while (this.peek() === "|") {
+      this.index++
+      alternatives.push(this.sequence())
+    }
+    return alternatives
+  }
+
+  /** Parses terms until the end of the string, a `|` pipe, or a `)`. */
+  private sequence() {
+    const terms: ChainTerm[] = []
+    let token
+    while ((token = this.peek()) !== undefined && token !== "|" && token !== ")") {
+      terms.push(this.term())
+    }
+    if (!terms.length) throw this.error("Expected a rule name or group")
+    return terms
+  }
+
+  /** Parses a rule name or group, and its quantifier or predicate, if it has one. */
+  private term(): ChainTerm {
+    const predicate = this.peek()
+    if (predicate === "&" || predicate === "!") {
+      this.index++
+      const item = this.atom()
+      if (this.quantifier()) throw this.error("Predicates can't have a quantifier")
+      return [item, 1, 1, predicate]
+    }
+
+    const item = this.atom()
+    const [min, max] = this.quantifier() ?? [1, 1]
+    return [item, min, max]
+  }
+
+  /** Parses a rule name or group. */
+  private atom(): Rule | ChainGroup {
+    const token = this.tokens[this.index++]
+
+    if (token === undefined) throw this.error("Expected a rule name or group")
+
+    if (token === "(") {
+      const group = this.alternatives()
+      if (this.tokens[this.index++] !== ")") throw this.error("Unclosed group")
+      return group
+    }
+
+    if (token === "|*" || token === "|+") {
+      throw this.error("Cannot use |* (or |+) with groups, use (A | B)* instead")
+    }
+
+    if (/^[()|?*+&!{]/.test(token)) throw this.error(`Unexpected "${token}"`)
+
+    return this.repo.resolve(token, false)
+  }
+
+  /**
+   * Parses a quantifier, returning the fewest and most times it allows, or
+   * `undefined` if there isn't one.
+   */
+  private quantifier(): [min: number, max: number] | undefined {
+    const token = this.peek()
+    let bounds: [number, number] | undefined
+
+    // prettier-ignore
+    switch (token) {
+      case "?": bounds = [0, 1]; break
+      case "*": bounds = [0, Infinity]; break
+      case "+": bounds = [1, Infinity]; break
+      default: if (token?.[0] === "{") bounds = this.bounds(token)
+    }
+
+    if (bounds) this.index++
+    return bounds
+  }
+
+  /**
+   * Parses a `{m,n}` quantifier, which can also be written as `{n}`, or as
+   * `{m,}` for no maximum.
+   *
+   * @param token - The quantifier token.
+   */
+  private bounds(token: string): [number, number] {
+    const match = /^\{\s*(\d+)\s*(,\s*(\d*)\s*)?\}$/.exec(token)
+    if (!match) throw this.error(`Invalid quantifier "${token}", expected e.g. {1,6}`)
+    const min = parseInt(match[1], 10)
+    const max = !match[2] ? min : match[3] ? parseInt(match[3], 10) : Infinity
+    if (max < min || max === 0) throw this.error(`Invalid quantifier "${token}"`)
+    return [min, max]
+  }
+
+  /**
+   * Returns an error for the string being parsed.
+   *
+   * @param message - The error message.
+   */
+  private error(message: string) {
+    return new GrammarCompileError(message, "", this.str)
+  }
+}
+
+/** Serializes a chain rule, replacing its rules with their snapshot indexes. */
+function snapshotChainRule(writer: SnapshotWriter, rule: ChainRule): SnapshotChainRule {
+  switch (rule[1]) {
+    case Quantifier.ALTERNATIVES: {
+      const rules = rule[0].map(([item, type]): [number, number] => [
+        writer.item(item),
+        type
+      ])
+      return [rules, rule[1]]
+    }
+    case Quantifier.REPEATING_ZERO_OR_MORE:
+    case Quantifier.REPEATING_ONE_OR_MORE: {
+      return [rule[0].map(item => writer.item(item)), rule[1]]
+    }
+    case Quantifier.GROUP: {
+      return [snapshotChainGroup(writer, rule[0]), rule[1]]
+    }
+    default: {
+      return [writer.item(rule[0]), rule[1]]
+    }
+  }
+}
+
+/** Serializes a group, replacing its rules with their snapshot indexes. */
+function snapshotChainGroup(
+  writer: SnapshotWriter,
+  group: ChainGroup
+): SnapshotChainGroup {
+  return group.map(terms =>
+    terms.map(([item, min, max, predicate]) => {
+      const serialized =
+        item instanceof Rule ? writer.item(item) : snapshotChainGroup(writer, item)
+      // Infinity can't be written as JSON
+      const term: SnapshotChainTerm = [serialized, min, max === Infinity ? null : max]
+      if (predicate) term[3] = predicate
+      return term
+    })
+  )
+}
+
+/** Restores a chain rule serialized by `snapshotChainRule`. */
+function restoreChainRule(reader: SnapshotReader, [item, type]: SnapshotChainRule) {
+  if (typeof item === "number") return [reader.rule(item), type] as ChainRuleSimple
+  if (type === Quantifier.GROUP) {
+    return [restoreChainGroup(reader, item as SnapshotChainGroup), type] as ChainRule
+  }
+  if (type === Quantifier.ALTERNATIVES) {
+    const rules = (item as [number, number][]).map(([idx, type]) => [
+      reader.rule(idx),
+      type
+    ])
+    return [rules, type] as ChainRule
+  }
+  return [(item as number[]).map(idx => reader.rule(idx)), type] as ChainRule
+}
+
+/** Restores a group serialized by `snapshotChainGroup`. */
+function restoreChainGroup(
+  reader: SnapshotReader,
+  group: SnapshotChainGroup
+): ChainGroup {
+  return group.map(terms =>
+    terms.map(([item, min, max, predicate]) => {
+      const restored =
+        typeof item === "number" ? reader.rule(item) : restoreChainGroup(reader, item)
+      const term: ChainTerm = [restored, min, max ?? Infinity]
+      if (predicate) term[3] = predicate
+      return term
+    })
+  )
+}
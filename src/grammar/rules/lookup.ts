@@ -4,8 +4,10 @@
 
 import type { MatchOutput } from "../../types"
 import type * as DF from "../definition"
+import { GrammarCompileError } from "../error"
 import { LookupMatcher } from "../matchers/lookup"
 import type { Repository } from "../repository"
+import type { SnapshotLookup, SnapshotReader, SnapshotWriter } from "../snapshot"
 import { Rule } from "./rule"
 
 /**
@@ -30,11 +32,55 @@ export class LookupRule extends Rule {
     if (typeof strings === "string") {
       const [, ident] = strings.split(":")
       const value = repo.variables[ident]
-      if (!Array.isArray(value)) throw new Error(`Variable ${ident} is not an array`)
+      if (!Array.isArray(value)) {
+        throw new GrammarCompileError(
+          `Variable "${ident}" is not a list`,
+          "lookup",
+          strings
+        )
+      }
       strings = value
     }
 
-    this.lookup = new LookupMatcher(strings, repo.ignoreCase, repo.variables)
+    if (!strings.length) {
+      throw new GrammarCompileError("Lookups require at least one string", "lookup")
+    }
+
+    const list = strings
+    this.lookup = repo.within("lookup", () => {
+      return new LookupMatcher(list, repo.ignoreCase, repo.variables)
+    })
+    this.exec = this.lookup.match.bind(this.lookup)
+  }
+
+  protected firstPoints() {
+    return this.lookup.first()
+  }
+
+  protected patternReach() {
+    return this.lookup.reach()
+  }
+
+  /**
+   * @param writer - The {@link SnapshotWriter} to serialize referenced
+   *   rules and nodes with.
+   */
+  snapshot(writer: SnapshotWriter): SnapshotLookup {
+    return {
+      kind: "lookup",
+      ...this.snapshotOptions(writer),
+      lookup: this.lookup.snapshot()
+    }
+  }
+
+  /**
+   * @param reader - The {@link SnapshotReader} to restore referenced rules
+   *   and nodes with.
+   * @param snapshot - The serialized rule.
+   */
+  restore(reader: SnapshotReader, snapshot: SnapshotLookup) {
+    this.restoreOptions(reader, snapshot)
+    this.lookup = new LookupMatcher(snapshot.lookup, this.ignoreCase)
     this.exec = this.lookup.match.bind(this.lookup)
   }
 }
@@ -5,21 +5,25 @@
 import type { MatchOutput } from "../../types"
 import { isRegExpString } from "../../util"
 import type * as DF from "../definition"
+import { GrammarCompileError } from "../error"
+import { CustomMatcher } from "../matchers/custom"
 import { RegExpMatcher } from "../matchers/regexp"
 import { StringMatcher } from "../matchers/string"
 import type { Repository } from "../repository"
+import type { SnapshotPattern, SnapshotReader, SnapshotWriter } from "../snapshot"
 import { Rule } from "./rule"
 
 /**
- * A {@link Rule} subclass that uses {@link RegExpMatcher} or
- * {@link StringMatcher} instances for the underlying pattern.
+ * A {@link Rule} subclass that uses {@link RegExpMatcher},
+ * {@link StringMatcher}, or {@link CustomMatcher} instances for the
+ * underlying pattern.
  */
 export class PatternRule extends Rule {
   /**
    * A list of patterns to check. This is a list of alternatives, so if any
    * matches, the rule matches.
    */
-  private declare patterns: (RegExpMatcher | StringMatcher)[]
+  private declare patterns: (RegExpMatcher | StringMatcher | CustomMatcher)[]
 
   declare exec: (str: string, pos: number) => MatchOutput
 
@@ -28,22 +32,87 @@ export class PatternRule extends Rule {
    * @param rule - The rule definition.
    */
   constructor(repo: Repository, rule: DF.Pattern) {
-    super(repo, rule)
+    // the patterns are needed first, to know the names of their groups
+    let patterns: (RegExpMatcher | StringMatcher | CustomMatcher)[]
+    if (Array.isArray(rule.match)) {
+      if (!rule.match.length) {
+        throw new GrammarCompileError("Expected at least one pattern", "match")
+      }
+      patterns = rule.match.map((pattern, idx) => {
+        return repo.within(["match", idx], () => matcher(repo, pattern))
+      })
+    } else {
+      const match = rule.match
+      patterns = [repo.within("match", () => matcher(repo, match))]
+    }
+
+    super(repo, rule, groupNames(patterns))
 
+    this.patterns = patterns
+
+    this.setup()
+  }
+
+  protected firstPoints() {
+    const points = new Set<number>()
+    for (const pattern of this.patterns) {
+      const first = pattern.first()
+      if (!first) return null
+      first.forEach(point => points.add(point))
+    }
+    return points
+  }
+
+  protected patternReach() {
+    const reach = { behind: 0, ahead: 0 }
+    for (const pattern of this.patterns) {
+      const next = pattern.reach()
+      reach.behind = Math.max(reach.behind, next.behind)
+      reach.ahead = Math.max(reach.ahead, next.ahead)
+    }
+    return reach
+  }
+
+  /**
+   * @param writer - The {@link SnapshotWriter} to serialize referenced
+   *   rules and nodes with.
+   */
+  snapshot(writer: SnapshotWriter): SnapshotPattern {
+    return {
+      kind: "pattern",
+      ...this.snapshotOptions(writer),
+      match: this.patterns.map(pattern => pattern.snapshot())
+    }
+  }
+
+  /**
+   * @param reader - The {@link SnapshotReader} to restore referenced rules
+   *   and nodes with.
+   * @param snapshot - The serialized rule.
+   */
+  restore(reader: SnapshotReader, snapshot: SnapshotPattern) {
+    this.restoreOptions(reader, snapshot)
+    // patterns are stored already expanded, so there are no variables to give
+    this.patterns = snapshot.match.map(pattern => {
+      if (typeof pattern === "object") {
+        return new CustomMatcher(pattern.matcher, reader.matcher(pattern.matcher))
+      }
+      return isRegExpString(pattern)
+        ? new RegExpMatcher(pattern, this.ignoreCase)
+        : new StringMatcher(pattern, this.ignoreCase)
+    })
+    this.setup()
+  }
+
+  /** Sets the `exec` method, based on how many patterns there are. */
+  private setup() {
     // bit odd, but we're doing this so we can bind directly
     // to the matcher if possible. this requires some shenanigans
-    if (Array.isArray(rule.match)) {
-      this.patterns = rule.match.map(pattern => {
-        return isRegExpString(pattern)
-          ? new RegExpMatcher(pattern, repo.ignoreCase, repo.variables)
-          : new StringMatcher(pattern, repo.ignoreCase, repo.variables)
-      })
+    if (this.patterns.length > 1) {
       // eslint-disable-next-line @typescript-eslint/unbound-method
       this.exec = this.execPatterns
     } else {
-      const pattern = isRegExpString(rule.match)
-        ? new RegExpMatcher(rule.match, repo.ignoreCase, repo.variables)
-        : new StringMatcher(rule.match, repo.ignoreCase, repo.variables)
+      const pattern = this.patterns[0]
 
       // normally this could just be a bound function,
       // but I didn't see any significant performance benefit
@@ -66,3 +135,55 @@ export class PatternRule extends Rule {
     return null
   }
 }
+
+/**
+ * Creates the matcher for a pattern.
+ *
+ * @param repo - The {@link Repository} the pattern's rule belongs to.
+ * @param pattern - The pattern to create a matcher for.
+ */
+function matcher(repo: Repository, pattern: string | DF.MatcherReference) {
+  // definitions aren't always validated, e.g. when they're loaded from JSON
+  if (typeof pattern !== "string" && (typeof pattern !== "object" || !pattern)) {
+    throw new GrammarCompileError("Expected a string, regex, or { matcher }", "", pattern)
+  }
+  if (typeof pattern === "object") {
+    const custom = repo.grammar.matcher(pattern.matcher)
+    if (!custom) {
+      throw new GrammarCompileError(
+        `Matcher "${pattern.matcher}" not found`,
+        "matcher",
+        pattern.matcher
+      )
+    }
+    return new CustomMatcher(pattern.matcher, custom)
+  }
+  return isRegExpString(pattern)
+    ? new RegExpMatcher(pattern, repo.ignoreCase, repo.variables)
+    : new StringMatcher(pattern, repo.ignoreCase, repo.variables)
+}
+
+/**
+ * Returns the index of each named group of a list of patterns, by name.
+ * Alternative patterns can share a name, if the groups have the same index.
+ *
+ * @param patterns - The patterns to find the named groups of.
+ */
+function groupNames(patterns: (RegExpMatcher | StringMatcher | CustomMatcher)[]) {
+  const groups: Record<string, number> = {}
+  for (const pattern of patterns) {
+    if (!(pattern instanceof RegExpMatcher)) continue
+    const names = pattern.groups()
+    for (const name in names) {
+      if (name in groups && groups[name] !== names[name]) {
+        throw new GrammarCompileError(
+          `Group "${name}" has a different index in each pattern`,
+          "match",
+          name
+        )
+      }
+      groups[name] = names[name]
+    }
+  }
+  return groups
+}
@@ -3,12 +3,21 @@
  * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
 
 import type { MatchOutput } from "../../types"
-import { createID, createLookbehind, re } from "../../util"
+import { createID, createLookbehind, re, removeUndefined } from "../../util"
 import type * as DF from "../definition"
+import { GrammarCompileError } from "../error"
 import { Matched } from "../matched"
+import type { Reach } from "../matchers/analyze"
+import { looksAhead, lookbehindDistance } from "../matchers/analyze"
 import { RegExpMatcher } from "../matchers/regexp"
 import { Node } from "../node"
 import type { Repository } from "../repository"
+import type {
+  SnapshotItem,
+  SnapshotReader,
+  SnapshotRuleOptions,
+  SnapshotWriter
+} from "../snapshot"
 import type { GrammarState } from "../state"
 
 /**
@@ -25,6 +34,12 @@ export abstract class Rule {
   /** If given, this function will be checked prior to matching. */
   declare lookbehind?: (str: string, pos: number) => boolean
 
+  /**
+   * How far behind the position this rule is matched at its lookbehind can
+   * look, in UTF-16 code units. `Infinity` if the lookbehind is unbounded.
+   */
+  declare lookbehindDistance?: number
+
   /** If given, this {@link RegExpMatcher} will be checked after matching. */
   declare lookahead?: RegExpMatcher
 
@@ -49,51 +64,88 @@ export abstract class Rule {
    */
   declare rematch?: boolean
 
+  /**
+   * If set, this rule is given a larger window of the input after its
+   * position than the parser's margins.
+   */
+  declare read?: DF.ReadWindow
+
+  /** If true, the patterns of this rule are case-insensitive. */
+  declare ignoreCase?: boolean
+
+  /**
+   * The definition of this rule. Only the options that can't be recovered
+   * from the compiled rule, like its lookbehind, are guaranteed to be kept.
+   */
+  declare def: DF.RuleOptions
+
   /**
    * @param repo - The {@link Repository} to add this rule to.
    * @param rule - The rule definition.
+   * @param groups - The index of each named group of the rule's pattern,
+   *   by name, so that captures can be given by name.
    */
-  constructor(repo: Repository, rule: DF.Rule) {
+  constructor(repo: Repository, rule: DF.Rule, groups: Record<string, number> = {}) {
     let type = rule.type ?? createID()
     let emit = (rule.type && rule.emit !== false) || rule.autocomplete
 
     this.name = type
     this.node = !emit ? Node.None : new Node(repo.id(), rule)
+    this.def = rule
+
+    if (repo.ignoreCase) this.ignoreCase = true
 
     if (rule.captures) {
       this.captures = []
       for (const key in rule.captures) {
         const value = rule.captures[key]
-        const idx = parseInt(key, 10)
-        // conditional
-        if ("matches" in value) this.captures[idx] = captureFunction(repo, value)
-        // node or reused
-        else this.captures[idx] = repo.add(value)
+        repo.attempt(["captures", key], () => {
+          const idx = captureIndex(key, groups)
+          if (idx in this.captures) {
+            throw new GrammarCompileError(
+              `Capture ${idx} is given more than once`,
+              "",
+              key
+            )
+          }
+          // conditional
+          if ("matches" in value) {
+            this.captures[idx] = captureFunction(repo, value, groups)
+          }
+          // node or reused
+          else this.captures[idx] = repo.add(value)
+        })
       }
     }
 
     if (rule.lookbehind) {
-      const negative = rule.lookbehind[0] === "!"
-      const regexp = re(rule.lookbehind)
-      if (!regexp) throw new Error("Invalid lookbehind regexp")
-      this.lookbehind = createLookbehind(regexp, negative)
+      const lookbehind = rule.lookbehind
+      repo.attempt("lookbehind", () => this.setLookbehind(lookbehind))
     }
 
     if (rule.lookahead) {
-      this.lookahead = new RegExpMatcher(rule.lookahead, repo.ignoreCase, repo.variables)
+      const lookahead = rule.lookahead
+      repo.attempt("lookahead", () => {
+        this.lookahead = new RegExpMatcher(lookahead, repo.ignoreCase, repo.variables)
+      })
     }
 
     if (rule.context) {
-      if (!Array.isArray(rule.context)) {
-        this.contextSetters = [contextSetter(rule.context)]
-      } else {
-        this.contextSetters = rule.context.map(contextSetter)
+      const list = Array.isArray(rule.context)
+      const setters = [rule.context].flat()
+      this.contextSetters = []
+      for (let i = 0; i < setters.length; i++) {
+        const path = list ? ["context", i] : "context"
+        const fn = repo.attempt(path, () => contextSetter(repo, setters[i], groups))
+        if (fn) this.contextSetters.push(fn)
       }
     }
 
     if (rule.contextImmediate) this.contextImmediate = true
 
     if (rule.rematch) this.rematch = true
+
+    if (rule.read) this.read = rule.read
   }
 
   /**
@@ -103,6 +155,163 @@ export abstract class Rule {
    */
   abstract exec(str: string, pos: number, state: GrammarState): Matched | MatchOutput
 
+  /**
+   * Function that subclasses must implement, which returns the set of code
+   * points a match of the rule can start with, or `null` if it can't be
+   * known. It's okay for the set to have code points that can't actually
+   * start a match, but it can't be missing any that can.
+   */
+  protected abstract firstPoints(): Set<number> | null
+
+  /**
+   * Returns the set of code points a match of this rule can start with, or
+   * `null` if it can't be known. Used to skip rules that can't match the
+   * current character, without trying them.
+   */
+  first() {
+    // immediate context setters fire even if the rule doesn't match,
+    // so the rule always has to be tried
+    if (this.contextSetters && this.contextImmediate) return null
+    return this.firstPoints()
+  }
+
+  /**
+   * Function that subclasses must implement, which returns how far around
+   * the position the rule is matched at its patterns can look. The
+   * lookbehind and lookahead of the rule are handled by `reach`.
+   */
+  protected abstract patternReach(): Reach
+
+  /**
+   * Returns how far around the position this rule is matched at it can
+   * look, including its lookbehind and lookahead. This is how much of the
+   * document the parser has to give the rule for it to always match the same way.
+   */
+  reach(): Reach {
+    let { behind, ahead } = this.patternReach()
+    if (this.lookbehindDistance !== undefined) {
+      behind = Math.max(behind, this.lookbehindDistance)
+    }
+    // the lookahead is checked where the match ends, which is at most
+    // as far as the patterns can look
+    if (this.lookahead) ahead += this.lookahead.reach().ahead
+    return { behind, ahead }
+  }
+
+  /**
+   * Function that subclasses must implement, which serializes the rule for
+   * a {@link GrammarSnapshot}.
+   *
+   * @param writer - The {@link SnapshotWriter} to serialize referenced
+   *   rules and nodes with.
+   */
+  abstract snapshot(writer: SnapshotWriter): SnapshotItem
+
+  /**
+   * Function that subclasses must implement, which restores a rule created
+   * without its constructor from its serialized form.
+   *
+   * @param reader - The {@link SnapshotReader} to restore referenced rules
+   *   and nodes with.
+   * @param snapshot - The serialized rule.
+   */
+  abstract restore(reader: SnapshotReader, snapshot: SnapshotItem): void
+
+  /**
+   * Serializes the options shared by every kind of rule.
+   *
+   * @param writer - The {@link SnapshotWriter} to serialize nodes with.
+   */
+  protected snapshotOptions(writer: SnapshotWriter) {
+    const snapshot: SnapshotRuleOptions = {
+      name: this.name,
+      node: writer.node(this.node)
+    }
+
+    if (this.ignoreCase) snapshot.ignoreCase = true
+
+    if (this.captures) {
+      // holes become null, so that the list survives being turned into JSON
+      snapshot.captures = Array.from(this.captures, capture => {
+        if (!capture) return null
+        if (capture instanceof Node) return writer.node(capture)
+        return removeUndefined({
+          ...capture.condition,
+          then: capture.then ? writer.node(capture.then) : undefined,
+          else: capture.else ? writer.node(capture.else) : undefined
+        })
+      })
+    }
+
+    if (this.def.lookbehind) snapshot.lookbehind = this.def.lookbehind
+    if (this.lookahead) snapshot.lookahead = this.lookahead.snapshot()
+    if (this.def.context) snapshot.context = [this.def.context].flat()
+    if (this.contextImmediate) snapshot.contextImmediate = true
+    if (this.rematch) snapshot.rematch = true
+    if (this.read) snapshot.read = this.read
+
+    return snapshot
+  }
+
+  /**
+   * Restores the options shared by every kind of rule.
+   *
+   * @param reader - The {@link SnapshotReader} to restore nodes with.
+   * @param snapshot - The serialized options.
+   */
+  protected restoreOptions(reader: SnapshotReader, snapshot: SnapshotRuleOptions) {
+    const { lookbehind, lookahead, context } = snapshot
+
+    this.name = snapshot.name
+    this.node = reader.node(snapshot.node)
+    this.def = { lookbehind, context }
+
+    if (snapshot.ignoreCase) this.ignoreCase = true
+
+    if (snapshot.captures) {
+      this.captures = []
+      snapshot.captures.forEach((capture, idx) => {
+        if (capture === null) return
+        if (typeof capture === "number") {
+          this.captures[idx] = reader.node(capture)
+        } else {
+          const nodeThen = capture.then !== undefined ? reader.node(capture.then) : null
+          const nodeElse = capture.else !== undefined ? reader.node(capture.else) : null
+          const condition = { if: capture.if, matches: capture.matches }
+          const matcher = capture.matches.startsWith("/")
+            ? re(capture.matches)!
+            : capture.matches
+          this.captures[idx] = createCaptureFunction(
+            condition,
+            matcher,
+            nodeThen,
+            nodeElse
+          )
+        }
+      })
+    }
+
+    if (lookbehind) this.setLookbehind(lookbehind)
+    if (lookahead) this.lookahead = new RegExpMatcher(lookahead)
+    if (context) this.contextSetters = context.map(createContextSetter)
+    if (snapshot.contextImmediate) this.contextImmediate = true
+    if (snapshot.rematch) this.rematch = true
+    if (snapshot.read) this.read = snapshot.read
+  }
+
+  /**
+   * Sets the lookbehind function of this rule, and how far it can look.
+   *
+   * @param lookbehind - The lookbehind regex, prefixed with `!` if negative.
+   */
+  private setLookbehind(lookbehind: DF.LookbehindSource) {
+    const negative = lookbehind[0] === "!"
+    const regexp = re(lookbehind)
+    if (!regexp) throw new GrammarCompileError("Invalid regex", "", lookbehind)
+    this.lookbehind = createLookbehind(regexp, negative, looksAhead(regexp))
+    this.lookbehindDistance = lookbehindDistance(regexp)
+  }
+
   /**
    * @param state - The current {@link GrammarState}.
    * @param str - The string to match.
@@ -138,28 +347,47 @@ export abstract class Rule {
         if (this.captures) {
           if (!output.captures) throw new Error("Output has no captures when it should")
 
-          const captures: Matched[] = []
-          let capturePos = pos
+          // captures can nest or leave gaps, so they have to be placed by index
+          if (output.indices) {
+            const nodes: Node[] = []
+            const list: number[] = []
+
+            for (let i = 0; i < this.captures.length; i++) {
+              const node = this.captureNode(state, i, output.captures[i])
+              if (!node) return null
+              nodes.push(node)
+
+              // captures in lookarounds can be outside of the match
+              const range = output.indices[i]
+              if (
+                node !== Node.None &&
+                range &&
+                range[0] >= 0 &&
+                range[1] <= output.length
+              ) {
+                list.push(i)
+              }
+            }
 
-          for (let i = 0; i < this.captures.length; i++) {
-            const val = this.captures[i]
-            const capture = output.captures[i]
+            matched.captures = nestCaptures(matched, nodes, output.indices, list)
+          }
+          // captures cover the whole match, one after another
+          else {
+            const captures: Matched[] = []
+            let capturePos = pos
 
-            let node = Node.None
+            for (let i = 0; i < this.captures.length; i++) {
+              const capture = output.captures[i]
+              const node = this.captureNode(state, i, capture)
+              if (!node) return null
 
-            if (val) {
-              const resolved = typeof val === "function" ? val(state, capture) : val
-              if (resolved === false) return null
-              if (resolved === true) node = Node.None
-              else node = resolved
-            }
+              captures.push(new Matched(state, node, capture, capturePos))
 
-            captures.push(new Matched(state, node, capture, capturePos))
+              capturePos += capture.length
+            }
 
-            capturePos += capture.length
+            matched.captures = captures
           }
-
-          matched.captures = captures
         }
       }
       // returned a full Matched, which we may need to wrap
@@ -196,10 +424,140 @@ export abstract class Rule {
 
     return matched
   }
+
+  /**
+   * Resolves the {@link Node} to emit for a capture. Returns `null` if the
+   * capture's condition failed, which means the rule fails to match.
+   *
+   * @param state - The current {@link GrammarState}.
+   * @param idx - The index of the capture.
+   * @param capture - The captured string.
+   */
+  private captureNode(state: GrammarState, idx: number, capture: string) {
+    const val = this.captures[idx]
+    if (!val) return Node.None
+    const resolved = typeof val === "function" ? val(state, capture) : val
+    if (resolved === false) return null
+    return resolved === true ? Node.None : resolved
+  }
+}
+
+/**
+ * Builds the tree of captures for a match whose captures can nest, or
+ * leave gaps, from where each capture is. Text that isn't inside of a
+ * capture is kept as plain text. Captures that overlap an earlier one,
+ * without being inside of it, are left out.
+ *
+ * @param matched - The match the captures are for.
+ * @param nodes - The node to emit for each capture.
+ * @param indices - Where each capture is, relative to the start of the match.
+ * @param list - The indexes of the captures to place, in order.
+ * @param from - The start of the range being built, relative to the match.
+ * @param to - The end of the range being built, relative to the match.
+ */
+function nestCaptures(
+  matched: Matched,
+  nodes: Node[],
+  indices: ([number, number] | undefined)[],
+  list: number[],
+  from = 0,
+  to = matched.length
+) {
+  const { state, total } = matched
+  const captures: Matched[] = []
+  let cursor = from
+
+  for (let i = 0; i < list.length; ) {
+    const [start, end] = indices[list[i]]!
+
+    // captures are ordered by where their group opens,
+    // so the captures inside of this one are the ones right after it
+    let next = i + 1
+    while (next < list.length) {
+      const [innerStart, innerEnd] = indices[list[next]]!
+      if (innerStart < start || innerEnd > end) break
+      next++
+    }
+
+    if (start >= cursor) {
+      if (start > cursor) {
+        captures.push(
+          new Matched(state, Node.None, total.slice(cursor, start), matched.from + cursor)
+        )
+      }
+
+      const inner =
+        next > i + 1
+          ? nestCaptures(matched, nodes, indices, list.slice(i + 1, next), start, end)
+          : undefined
+
+      const text = total.slice(start, end)
+      captures.push(new Matched(state, nodes[list[i]], text, matched.from + start, inner))
+
+      cursor = end
+    }
+
+    i = next
+  }
+
+  if (cursor < to) {
+    captures.push(
+      new Matched(state, Node.None, total.slice(cursor, to), matched.from + cursor)
+    )
+  }
+
+  return captures
 }
 
-/** Creates a context setter from its definition. */
-function contextSetter(setter: DF.ContextSetter) {
+/**
+ * Returns the index of a capture, given by its key in a rule's `captures`.
+ *
+ * @param key - The index of the capture, or the name of its group.
+ * @param groups - The index of each named group, by name.
+ */
+function captureIndex(key: string, groups: Record<string, number>) {
+  if (/^\d+$/.test(key)) return parseInt(key, 10)
+  if (!(key in groups)) {
+    throw new GrammarCompileError(`Capture group "${key}" not found`, "", key)
+  }
+  return groups[key]
+}
+
+/**
+ * Creates a context setter from its definition.
+ *
+ * @param repo - The {@link Repository} the rule is being added to.
+ * @param setter - The context setter definition.
+ * @param groups - The index of each named group of the rule's pattern.
+ */
+function contextSetter(
+  repo: Repository,
+  setter: DF.ContextSetter,
+  groups: Record<string, number>
+) {
+  if (typeof setter.set !== "string") {
+    throw new GrammarCompileError(
+      "Context setters require a key to set",
+      "set",
+      setter.set
+    )
+  }
+
+  if (setter.to === undefined) {
+    throw new GrammarCompileError("Context setters require a value to set", "to")
+  }
+
+  if (setter.if !== undefined) checkMatchIndex(setter.if, "if", groups)
+  if (typeof setter.to === "string") checkSubstitute(repo, setter.to, "to", groups)
+  if (setter.matches !== undefined) {
+    checkSubstitute(repo, setter.matches, "matches", groups)
+  }
+
+  return createContextSetter(setter)
+}
+
+/** Creates the function for a context setter that has already been checked. */
+function createContextSetter(setter: DF.ContextSetter) {
   return (state: GrammarState) => {
     // check if and match conditions
     // if only "if", check if that string isn't empty
@@ -229,23 +587,73 @@ function contextSetter(setter: DF.ContextSetter) {
   }
 }
 
-type CaptureFunction = (state: GrammarState, capture: string) => Node | boolean
+/**
+ * A function that checks a capture condition, returning either the
+ * {@link Node} to use for the capture, or if the condition passed.
+ */
+interface CaptureFunction {
+  (state: GrammarState, capture: string): Node | boolean
+
+  /** The condition being checked, without its nodes. */
+  condition: Pick<DF.CaptureCondition, "if" | "matches">
+
+  /** The {@link Node} used if the condition passes. */
+  then: Node | null
 
-/** Creates a `CaptureFunction` from a capture condition definition. */
-function captureFunction(repo: Repository, cond: DF.CaptureCondition): CaptureFunction {
+  /** The {@link Node} used if the condition fails. */
+  else: Node | null
+}
+
+/**
+ * Creates a `CaptureFunction` from a capture condition definition.
+ *
+ * @param repo - The {@link Repository} the rule is being added to.
+ * @param cond - The capture condition definition.
+ * @param groups - The index of each named group of the rule's pattern.
+ */
+function captureFunction(
+  repo: Repository,
+  cond: DF.CaptureCondition,
+  groups: Record<string, number>
+): CaptureFunction {
   // TODO: fix lower casing matching here
 
+  if (typeof cond.matches !== "string") {
+    throw new GrammarCompileError("Invalid match condition", "matches", cond.matches)
+  }
+
   const matcher = cond.matches.startsWith("/") ? re(cond.matches) : cond.matches
 
-  if (!matcher) throw new Error("Invalid match condition")
+  if (!matcher) throw new GrammarCompileError("Invalid regex", "matches", cond.matches)
+
+  if (typeof matcher === "string") checkSubstitute(repo, matcher, "matches", groups)
+  if (cond.if !== undefined) checkMatchIndex(cond.if, "if", groups)
 
   let nodeThen: Node | null = null
   let nodeElse: Node | null = null
 
-  if (cond.then) nodeThen = repo.add(cond.then)
-  if (cond.else) nodeElse = repo.add(cond.else)
+  if (cond.then) nodeThen = repo.within("then", () => repo.add(cond.then!))
+  if (cond.else) nodeElse = repo.within("else", () => repo.add(cond.else!))
 
-  return (state: GrammarState, capture: string) => {
+  const condition = { if: cond.if, matches: cond.matches }
+  return createCaptureFunction(condition, matcher, nodeThen, nodeElse)
+}
+
+/**
+ * Creates a `CaptureFunction` for a capture condition that has already been checked.
+ *
+ * @param cond - The condition to check.
+ * @param matcher - The compiled `matches` value of the condition.
+ * @param nodeThen - The {@link Node} to use if the condition passes.
+ * @param nodeElse - The {@link Node} to use if the condition fails.
+ */
+function createCaptureFunction(
+  cond: Pick<DF.CaptureCondition, "if" | "matches">,
+  matcher: string | RegExp,
+  nodeThen: Node | null,
+  nodeElse: Node | null
+): CaptureFunction {
+  const fn = (state: GrammarState, capture: string) => {
     const matches = typeof matcher === "string" ? state.sub(matcher) : matcher
     if (typeof matches !== "string" && !(matches instanceof RegExp)) {
       throw new Error("Invalid match condition")
@@ -266,4 +674,54 @@ function captureFunction(repo: Repository, cond: DF.CaptureCondition): CaptureFu
     if (!passed && nodeElse) return nodeElse
     return passed
   }
+
+  return Object.assign(fn, { condition: cond, then: nodeThen, else: nodeElse })
+}
+
+/**
+ * Throws if the given string isn't a valid capture reference, e.g. `$0` or
+ * `$label`, or if it refers to a named group the rule's pattern doesn't have.
+ *
+ * @param str - The string to check.
+ * @param path - The path to the string, relative to its parent.
+ * @param groups - The index of each named group of the rule's pattern.
+ */
+function checkMatchIndex(str: string, path: string, groups: Record<string, number>) {
+  if (!/^\$(?:\d+|[A-Za-z_]\w*)$/.test(str)) {
+    throw new GrammarCompileError(
+      "Expected a capture reference, e.g. $0 or $label",
+      path,
+      str
+    )
+  }
+  const name = str.slice(1)
+  if (!/^\d+$/.test(name) && !(name in groups)) {
+    throw new GrammarCompileError(`Capture group "${name}" not found`, path, str)
+  }
+}
+
+/**
+ * Throws if the given string is a `$var:` substitution for a variable that
+ * doesn't exist, or any other malformed substitution.
+ *
+ * @param repo - The {@link Repository} with the variables to check.
+ * @param str - The string to check.
+ * @param path - The path to the string, relative to its parent.
+ * @param groups - The index of each named group of the rule's pattern.
+ */
+function checkSubstitute(
+  repo: Repository,
+  str: string,
+  path: string,
+  groups: Record<string, number>
+) {
+  if (str[0] !== "$") return
+  if (str.startsWith("$var:")) {
+    const [, name] = str.split(":")
+    if (!(name in repo.variables)) {
+      throw new GrammarCompileError(`Variable "${name}" not found`, path, str)
+    }
+  } else if (!str.startsWith("$ctx:")) {
+    checkMatchIndex(str, path, groups)
+  }
 }
@@ -7,8 +7,9 @@ import { createID } from "../../util"
 import type * as DF from "../definition"
 import { Node } from "../node"
 import type { Repository } from "../repository"
+import type { SnapshotReader, SnapshotState, SnapshotWriter } from "../snapshot"
 import type { GrammarState } from "../state"
-import { Rule } from "./rule"
+import type { Rule } from "./rule"
 
 /**
  * A sort of {@link Rule}-like object that affects a {@link GrammarStack}. It
@@ -46,45 +47,98 @@ export class State {
     let emit = (state.type && state.emit !== false) || state.autocomplete
 
     // states handle nesting differently, so we don't want
-    // to use the normal nesting behavior
-    if (state.nest) {
-      const nest = state.nest
-      delete state.nest // don't pass to node
+    // to use the normal nesting behavior, and the nest isn't passed to the
+    // node. the definition isn't mutated, as it can be compiled again
+    const { nest, ...rest } = state
+    if (nest) {
       this.inside = new Node(repo.id(), { type: `${type}_Nest${nest}`, nest })
     }
 
     this.name = type
-    this.node = !emit ? Node.None : new Node(repo.id(), state)
+    this.node = !emit ? Node.None : new Node(repo.id(), rest)
 
-    // prettier-ignore
-    const begin = typeof state.begin === "string"
-      ? repo.get(state.begin)
-      : repo.add(state.begin)
+    // states are often recursive, so they need to be found before they're done
+    repo.register(this)
 
-    // prettier-ignore
-    const end = typeof state.end === "string"
-      ? repo.get(state.end)
-      : repo.add(state.end)
+    const begin = repo.attempt("begin", () => stateRule(repo, state.begin))
+    const end = repo.attempt("end", () => stateRule(repo, state.end))
 
-    if (!(begin instanceof Rule) || !(end instanceof Rule)) {
-      throw new Error(`Invalid state ${type}, rules not found or weren't rules`)
-    }
-
-    this.begin = begin
-    this.end = end
+    this.begin = begin!
+    this.end = end!
 
     if (!this.inside) {
       if (state.inside) {
-        if (state.inside === "loose") this.loose = true
-        else if (state.inside === "inherit") this.inside = null
-        else if (!Array.isArray(state.inside)) this.inside = repo.add(state.inside)
-        else this.inside = repo.inside(state.inside)
+        const inside = state.inside
+        if (inside === "loose") this.loose = true
+        else if (inside === "inherit") this.inside = null
+        else if (!Array.isArray(inside)) {
+          this.inside = repo.within("inside", () => repo.add(inside))
+        } else {
+          this.inside = repo.within("inside", () => repo.inside(inside))
+        }
       } else {
         this.inside = null
       }
     }
   }
 
+  /**
+   * Serializes this state for a {@link GrammarSnapshot}.
+   *
+   * @param writer - The {@link SnapshotWriter} to serialize referenced
+   *   rules and nodes with.
+   */
+  snapshot(writer: SnapshotWriter): SnapshotState {
+    const snapshot: SnapshotState = {
+      kind: "state",
+      name: this.name,
+      node: writer.node(this.node),
+      begin: writer.item(this.begin),
+      end: writer.item(this.end)
+    }
+
+    // a missing inside list means the state inherits the rules of its parent
+    if (this.loose) snapshot.inside = "loose"
+    else if (this.inside instanceof Node) snapshot.inside = writer.node(this.inside)
+    else if (this.inside) snapshot.inside = this.inside.map(obj => writer.item(obj))
+
+    return snapshot
+  }
+
+  /**
+   * Restores a state created without its constructor from its serialized form.
+   *
+   * @param reader - The {@link SnapshotReader} to restore referenced rules
+   *   and nodes with.
+   * @param snapshot - The serialized state.
+   */
+  restore(reader: SnapshotReader, snapshot: SnapshotState) {
+    const { inside } = snapshot
+
+    this.name = snapshot.name
+    this.node = reader.node(snapshot.node)
+    this.begin = reader.rule(snapshot.begin)
+    this.end = reader.rule(snapshot.end)
+    this.inside = null
+
+    if (inside === "loose") this.loose = true
+    else if (typeof inside === "number") this.inside = reader.node(inside)
+    else if (inside) this.inside = inside.map(idx => reader.item(idx))
+  }
+
+  /**
+   * Returns the set of code points a match of this state can start with,
+   * or `null` if it can't be known.
+   */
+  first() {
+    const begin = this.begin.first()
+    if (!this.loose) return begin
+    // loose states can match their end as well
+    const end = this.end.first()
+    if (!begin || !end) return null
+    return new Set([...begin, ...end])
+  }
+
   /**
    * @param state - The current {@link GrammarState}.
    * @param str - The string to match.
@@ -135,3 +189,13 @@ export class State {
     return matched
   }
 }
+
+/**
+ * Resolves the `begin` or `end` rule of a state definition.
+ *
+ * @param repo - The {@link Repository} to resolve the rule with.
+ * @param rule - The name of the rule, or the rule definition.
+ */
+function stateRule(repo: Repository, rule: string | DF.Rule) {
+  return typeof rule === "string" ? repo.resolve(rule, false) : repo.add(rule)
+}
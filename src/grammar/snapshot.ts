@@ -0,0 +1,416 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type { Matcher, MatcherTable, VariableTable } from "../types"
+import { re } from "../util"
+import type * as DF from "./definition"
+import { Grammar } from "./grammar"
+import { Node } from "./node"
+import { Repository } from "./repository"
+import { Chain } from "./rules/chain"
+import { LookupRule } from "./rules/lookup"
+import { PatternRule } from "./rules/pattern"
+import { Rule } from "./rules/rule"
+import { State } from "./rules/state"
+
+/** The version of the snapshot format. Snapshots from other versions can't be loaded. */
+export const SNAPSHOT_VERSION = 1
+
+/**
+ * A compiled {@link Grammar}, serialized into JSON-compatible data by
+ * {@link compileGrammar}. Patterns are stored with their variables already
+ * expanded, and rules and states refer to each other by their index in the
+ * `items` list.
+ */
+export interface GrammarSnapshot {
+  /** The version of the format the snapshot was made with. */
+  version: number
+
+  /** Extra language data props, with `indentOnInput` stored as a regex string. */
+  data: Record<string, any>
+
+  /** The string and list variables used by `$var:` substitutions. */
+  variables: Record<string, string | string[]>
+
+  /** The definition of every node used by the grammar, by ID. */
+  nodes: Record<number, DF.Node>
+
+  /** Every rule and state used by the grammar. */
+  items: SnapshotItem[]
+
+  /** Indexes of the root rules and states. */
+  root: number[]
+
+  /** Indexes of the global rules and states. */
+  global?: number[]
+
+  /** ID of the default node. */
+  default?: number
+}
+
+/** A serialized rule or state. */
+export type SnapshotItem =
+  | SnapshotPattern
+  | SnapshotLookup
+  | SnapshotChain
+  | SnapshotState
+
+/** Options shared by every kind of serialized rule. */
+export interface SnapshotRuleOptions {
+  /** The name of the rule. */
+  name: string
+
+  /** ID of the rule's node, which is -1 if it doesn't emit anything. */
+  node: number
+
+  ignoreCase?: boolean
+
+  /** Node IDs or conditions for each capture, with `null` for unused captures. */
+  captures?: (number | SnapshotCondition | null)[]
+
+  lookbehind?: DF.LookbehindSource
+  lookahead?: DF.Regex
+  context?: DF.ContextSetter[]
+  contextImmediate?: boolean
+  rematch?: boolean
+  read?: DF.ReadWindow
+}
+
+/** A serialized capture condition, with its nodes given by ID. */
+export interface SnapshotCondition {
+  if?: DF.MatchIndex
+  matches: string
+  then?: number
+  else?: number
+}
+
+/** A serialized {@link PatternRule}. */
+export interface SnapshotPattern extends SnapshotRuleOptions {
+  kind: "pattern"
+  match: (string | DF.MatcherReference)[]
+}
+
+/** A serialized {@link LookupRule}. */
+export interface SnapshotLookup extends SnapshotRuleOptions {
+  kind: "lookup"
+  lookup: string[]
+}
+
+/** A serialized {@link Chain}. */
+export interface SnapshotChain extends SnapshotRuleOptions {
+  kind: "chain"
+  chain: SnapshotChainRule[]
+  /** Skip patterns, and the indexes of skip rules, or just a pattern. */
+  skip?: DF.Regex | (DF.Regex | number)[]
+  backtrack?: boolean
+  recover?: number
+  /** IDs of the error nodes emitted when recovering. */
+  errors?: number[]
+}
+
+/**
+ * A serialized chain rule, which is the index of a rule (or a list of
+ * them, or a group, depending on the quantifier), and the quantifier.
+ */
+export type SnapshotChainRule = [
+  item: number | number[] | [number, number][] | SnapshotChainGroup,
+  quantifier: number
+]
+
+/** A serialized group of a chain rule. Each alternative is a list of terms. */
+export type SnapshotChainGroup = SnapshotChainTerm[][]
+
+/**
+ * A serialized term of a group, which is the index of a rule or a nested
+ * group, the fewest and most times it can match, with `null` for no
+ * maximum, and its predicate, if it's a predicate.
+ */
+export type SnapshotChainTerm = [
+  item: number | SnapshotChainGroup,
+  min: number,
+  max: number | null,
+  predicate?: "&" | "!"
+]
+
+/** A serialized {@link State}. */
+export interface SnapshotState {
+  kind: "state"
+  name: string
+  node: number
+  begin: number
+  end: number
+
+  /**
+   * Indexes of the rules inside of the state, the ID of the node used for
+   * nesting, or `"loose"`. If missing, the state inherits its parent's rules.
+   */
+  inside?: number[] | number | "loose"
+}
+
+/** Classes to restore serialized items with, by kind. */
+const ITEM_CLASSES = {
+  pattern: PatternRule,
+  lookup: LookupRule,
+  chain: Chain,
+  state: State
+}
+
+/**
+ * Serializes the rules, states, and nodes of a {@link Grammar}. Every
+ * object is only serialized once, no matter how many times it's referenced.
+ */
+export class SnapshotWriter {
+  /** The definition of every serialized node, by ID. */
+  nodes: Record<number, DF.Node> = {}
+
+  /** Every serialized rule and state. */
+  items: SnapshotItem[] = []
+
+  /** Indexes of the rules and states that have been serialized. */
+  private indexes = new Map<Rule | State, number>()
+
+  /**
+   * Serializes a {@link Node}, returning its ID.
+   *
+   * @param node - The node to serialize.
+   */
+  node(node: Node) {
+    if (node !== Node.None) this.nodes[node.id] = node.def
+    return node.id
+  }
+
+  /**
+   * Serializes a {@link Rule} or {@link State}, returning its index.
+   *
+   * @param obj - The rule or state to serialize.
+   */
+  item(obj: Rule | State) {
+    let idx = this.indexes.get(obj)
+    if (idx === undefined) {
+      // the index is reserved first, as states can contain themselves
+      idx = this.indexes.size
+      this.indexes.set(obj, idx)
+      this.items[idx] = obj.snapshot(this)
+    }
+    return idx
+  }
+}
+
+/**
+ * Restores the rules, states, and nodes of a {@link GrammarSnapshot}. Rules
+ * and states are created without running their constructors, so that
+ * nothing is compiled.
+ */
+export class SnapshotReader {
+  /** Restored nodes, by ID. */
+  private nodes = new Map<number, Node>()
+
+  /** Restored rules and states, by index. */
+  private items: (Rule | State)[] = []
+
+  /**
+   * @param snapshot - The snapshot to restore items from.
+   * @param grammar - The grammar being restored, which has the matchers
+   *   used by patterns.
+   */
+  constructor(private snapshot: GrammarSnapshot, private grammar: Grammar) {}
+
+  /**
+   * Gets a {@link Matcher} used by a pattern.
+   *
+   * @param name - The name of the matcher.
+   */
+  matcher(name: string): Matcher {
+    const matcher = this.grammar.matcher(name)
+    if (!matcher) throw new Error(`Matcher "${name}" not found`)
+    return matcher
+  }
+
+  /**
+   * Restores a {@link Node}.
+   *
+   * @param id - The ID of the node.
+   */
+  node(id: number) {
+    if (id === Node.None.id) return Node.None
+    let node = this.nodes.get(id)
+    if (!node) {
+      const def = this.snapshot.nodes[id]
+      if (!def) throw new Error(`Snapshot is missing node ${id}`)
+      node = new Node(id, def)
+      this.nodes.set(id, node)
+    }
+    return node
+  }
+
+  /**
+   * Restores a {@link Rule} or {@link State}.
+   *
+   * @param idx - The index of the item.
+   */
+  item(idx: number): Rule | State {
+    let obj = this.items[idx]
+    if (!obj) {
+      const snapshot = this.snapshot.items[idx]
+      if (!snapshot) throw new Error(`Snapshot is missing item ${idx}`)
+      obj = Object.create(ITEM_CLASSES[snapshot.kind].prototype) as Rule | State
+      // stored before it's restored, as states can contain themselves
+      this.items[idx] = obj
+      obj.restore(this, snapshot as never)
+    }
+    return obj
+  }
+
+  /**
+   * Restores a {@link Rule}, throwing if the item is a {@link State}.
+   *
+   * @param idx - The index of the rule.
+   */
+  rule(idx: number) {
+    const obj = this.item(idx)
+    if (!(obj instanceof Rule)) throw new Error(`Snapshot item ${idx} isn't a rule`)
+    return obj
+  }
+
+  /** Returns every restored node, sorted by ID. */
+  restoredNodes() {
+    return Array.from(this.nodes.values()).sort((a, b) => a.id - b.id)
+  }
+}
+
+/**
+ * A {@link Repository} for a {@link Grammar} loaded from a snapshot. It
+ * doesn't compile anything, and only knows of the nodes it was given.
+ */
+class SnapshotRepository extends Repository {
+  /** Every node in the snapshot, sorted by ID. */
+  declare restored: Node[]
+
+  nodes() {
+    return this.restored
+  }
+}
+
+/**
+ * Compiles a grammar definition into a {@link GrammarSnapshot}, which can
+ * be stored as JSON and loaded with {@link loadGrammar}. Loading a snapshot
+ * skips resolving the definition and expanding variables, so compiling is
+ * meant to be done ahead of time, e.g. as part of a build.
+ *
+ * The variables given here are expanded into the patterns that use them.
+ * Only string and list variables are kept for `$var:` substitutions, so
+ * any others (e.g. matchers) have to be given to {@link loadGrammar} again.
+ * The same goes for the matchers used by `{ matcher }` patterns.
+ *
+ * @param def - The grammar definition to compile.
+ * @param variables - {@link Variable}s to pass to the compiled grammar.
+ * @param matchers - {@link Matcher}s to pass to the compiled grammar.
+ */
+export function compileGrammar(
+  def: DF.Grammar,
+  variables: VariableTable = {},
+  matchers: MatcherTable = {}
+): GrammarSnapshot {
+  const grammar = new Grammar(def, variables, matchers)
+  const writer = new SnapshotWriter()
+
+  // every node is kept, even unused ones, as node sets need every ID
+  for (const node of grammar.repository.nodes()) writer.node(node)
+
+  const root = grammar.root.map(obj => writer.item(obj))
+  const global = grammar.global?.map(obj => writer.item(obj))
+
+  const data = { ...grammar.data }
+  if (data.indentOnInput instanceof RegExp) {
+    const { source, flags } = data.indentOnInput
+    data.indentOnInput = `/${source}/${flags}`
+  }
+
+  const kept: Record<string, string | string[]> = {}
+  for (const name in grammar.variables) {
+    const value = grammar.variables[name]
+    if (typeof value === "string") kept[name] = value
+    else if (Array.isArray(value) && value.every(v => typeof v === "string")) {
+      kept[name] = value
+    }
+  }
+
+  const snapshot: GrammarSnapshot = {
+    version: SNAPSHOT_VERSION,
+    data,
+    variables: kept,
+    nodes: writer.nodes,
+    items: writer.items,
+    root
+  }
+
+  if (global) snapshot.global = global
+  if (grammar.default) snapshot.default = writer.node(grammar.default)
+
+  return snapshot
+}
+
+/**
+ * Loads a {@link GrammarSnapshot} made by {@link compileGrammar}, creating
+ * the same {@link Grammar} that compiling its definition would have.
+ *
+ * @param snapshot - The snapshot to load.
+ * @param variables - {@link Variable}s to pass to the grammar, in addition
+ *   to the ones stored in the snapshot.
+ * @param matchers - {@link Matcher}s to pass to the grammar. Snapshots only
+ *   store the names of the matchers their patterns use.
+ */
+export function loadGrammar(
+  snapshot: GrammarSnapshot,
+  variables: VariableTable = {},
+  matchers: MatcherTable = {}
+) {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported grammar snapshot version: ${snapshot.version}`)
+  }
+
+  // the constructor would compile a definition, which is what's being skipped
+  const grammar = Object.create(Grammar.prototype) as Grammar
+
+  // snapshots don't keep the original definition
+  grammar.def = {}
+  grammar.variables = { ...snapshot.variables, ...variables }
+  grammar.matchers = matchers
+
+  grammar.data = { ...snapshot.data }
+  if (typeof grammar.data.indentOnInput === "string") {
+    const regex = re(grammar.data.indentOnInput)
+    if (regex) grammar.data.indentOnInput = regex
+    else delete grammar.data.indentOnInput
+  }
+
+  const repo = new SnapshotRepository(grammar, grammar.variables)
+  grammar.repository = repo
+
+  const reader = new SnapshotReader(snapshot, grammar)
+
+  for (const id in snapshot.nodes) reader.node(parseInt(id, 10))
+
+  grammar.root = snapshot.root.map(idx => reader.item(idx))
+  if (snapshot.global) grammar.global = snapshot.global.map(idx => reader.item(idx))
+  if (snapshot.default !== undefined) grammar.default = reader.node(snapshot.default)
+
+  repo.restored = reader.restoredNodes()
+
+  grammar.analyze()
+
+  return grammar
+}
+
+/**
+ * Returns true if the given grammar is a {@link GrammarSnapshot}, rather
+ * than a definition.
+ *
+ * @param grammar - The grammar to check.
+ */
+export function isGrammarSnapshot(
+  grammar: DF.Grammar | GrammarSnapshot
+): grammar is GrammarSnapshot {
+  return "version" in grammar && "items" in grammar
+}
@@ -69,6 +69,8 @@ export class GrammarState {
     // match/capture substition
     else if (this.last?.captures) {
       const [, index] = str.split("$")
+      // named groups, e.g. $label
+      if (!/^\d+$/.test(index)) return this.last.groups?.[index]
       return this.last.captures[parseInt(index, 10)]
     }
 
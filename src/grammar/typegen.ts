@@ -0,0 +1,162 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type * as DF from "./definition"
+import { resolveGrammar } from "./extend"
+
+/**
+ * Generates the source of a TypeScript module declaring the names used by
+ * a grammar definition, as string literal unions. It can be saved as
+ * either a `.ts` or `.d.ts` file, and exports:
+ *
+ * - `NodeName`: Every name that can be emitted into the syntax tree.
+ * - `AutocompleteName`: Every autocomplete handler name.
+ * - `IncludeName`: Every `includes` name, including those of imported grammars.
+ * - `GrammarName`: Every name in the above.
+ *
+ * `GrammarName` can be given to `ParserConfiguration`, so that its
+ * autocomplete handlers (and the `TarnationCompletionContext` they're
+ * given) only accept names that are actually in the grammar.
+ *
+ * Nodes without a name, which get a random one when compiled, are skipped.
+ *
+ * @param def - The grammar definition to generate names for.
+ */
+export function generateGrammarTypes(def: DF.Grammar) {
+  const collector = new NameCollector()
+  collector.grammar(resolveGrammar(def))
+
+  return [
+    "// generated from a grammar definition by cm-tarnation, don't edit by hand",
+    "",
+    union(
+      "NodeName",
+      "Every name that can be emitted into the syntax tree.",
+      collector.nodes
+    ),
+    union("AutocompleteName", "Every autocomplete handler name.", collector.autocomplete),
+    union("IncludeName", "Every `includes` name.", collector.includes),
+    "/** Every name used by the grammar. */",
+    "export type GrammarName = NodeName | AutocompleteName | IncludeName",
+    ""
+  ].join("\n")
+}
+
+/**
+ * Prints an exported string literal union type.
+ *
+ * @param name - The name of the type.
+ * @param doc - The doc comment for the type.
+ * @param names - The names in the union. If empty, the type is `never`.
+ */
+function union(name: string, doc: string, names: Set<string>) {
+  const members = Array.from(names)
+    .sort()
+    .map(str => `\n  | ${JSON.stringify(str)}`)
+    .join("")
+  return `/** ${doc} */\nexport type ${name} =${members || " never"}\n`
+}
+
+/** Walks a grammar definition, collecting every name it uses. */
+class NameCollector {
+  /** Names that can be emitted into the syntax tree. */
+  nodes = new Set<string>()
+
+  /** Autocomplete handler names. */
+  autocomplete = new Set<string>()
+
+  /** `includes` names, prefixed with their namespace if imported. */
+  includes = new Set<string>()
+
+  /**
+   * Collects the names of a grammar, and of the grammars it imports.
+   *
+   * @param def - The grammar definition.
+   * @param prefix - The namespace prefix of the grammar, if imported.
+   */
+  grammar(def: DF.Grammar | DF.GrammarImport, prefix = "") {
+    if (def.repository) {
+      for (const name in def.repository) this.item(def.repository[name], name)
+    }
+
+    if (def.includes) {
+      for (const name in def.includes) this.includes.add(`${prefix}${name}`)
+    }
+
+    // imported grammars only have their repository and includes used
+    if (!prefix && "root" in def) {
+      def.root?.forEach(item => this.item(item))
+      def.global?.forEach(item => this.item(item))
+      if (def.default) this.item(def.default)
+    }
+
+    if (def.imports) {
+      for (const ns in def.imports) this.grammar(def.imports[ns], `${prefix}${ns}.`)
+    }
+  }
+
+  /**
+   * Collects the names of an item, and of any items inlined inside of it.
+   *
+   * @param item - The item's definition.
+   * @param name - The repository key of the item, if it has one.
+   */
+  private item(item: DF.RepositoryItem | DF.InsideItem, name?: string) {
+    // references, includes, and pattern shorthands don't emit anything,
+    // and macro calls are expanded when the definition is resolved
+    if (typeof item === "string" || "is" in item || "include" in item) return
+    if ("macro" in item) return
+
+    this.node(item, name)
+
+    if ("captures" in item && item.captures) {
+      for (const key in item.captures) {
+        const capture = item.captures[key]
+        if ("matches" in capture) {
+          if (capture.then) this.item(capture.then)
+          if (capture.else) this.item(capture.else)
+        } else {
+          this.item(capture)
+        }
+      }
+    }
+
+    if ("chain" in item && item.skip) {
+      for (const skip of [item.skip].flat()) this.item(skip)
+    }
+
+    if ("begin" in item) {
+      this.item(item.begin)
+      this.item(item.end)
+      const { inside } = item
+      if (Array.isArray(inside)) inside.forEach(obj => this.item(obj))
+      else if (typeof inside === "object") this.item(inside)
+    }
+  }
+
+  /**
+   * Collects the emitted name and autocomplete name of a node.
+   *
+   * @param node - The node's definition.
+   * @param name - The repository key of the node, if it has one.
+   */
+  private node(node: DF.Node | DF.State, name?: string) {
+    let type = node.type ?? name
+    if (node.open) type = `${node.open}Open`
+    if (node.close) type = `${node.close}Close`
+
+    if (typeof node.autocomplete === "string") this.autocomplete.add(node.autocomplete)
+
+    if (!type) return
+
+    if (node.autocomplete === true) this.autocomplete.add(type)
+
+    if (node.emit !== false) {
+      this.nodes.add(typeof node.emit === "string" ? node.emit : type)
+    }
+
+    // states nest with a node wrapped around their inside
+    if ("begin" in node && node.nest) this.nodes.add(`${type}_Nest${node.nest}`)
+  }
+}
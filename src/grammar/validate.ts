@@ -0,0 +1,723 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type { GrammarDiagnostic } from "../types"
+import { dedupe, isRegExpString, joinPath } from "../util"
+
+const NODE_KEYS = [
+  "type",
+  "open",
+  "close",
+  "emit",
+  "nest",
+  "tag",
+  "openedBy",
+  "closedBy",
+  "group",
+  "error",
+  "autocomplete",
+  "fold",
+  "indent"
+]
+
+const RULE_KEYS = [
+  ...NODE_KEYS,
+  "captures",
+  "context",
+  "contextImmediate",
+  "lookbehind",
+  "lookahead",
+  "rematch",
+  "read"
+]
+
+const GRAMMAR_KEYS = [
+  "comments",
+  "closeBrackets",
+  "indentOnInput",
+  "wordChars",
+  "ignoreCase",
+  "default",
+  "repository",
+  "includes",
+  "macros",
+  "imports",
+  "global",
+  "root",
+  "extends",
+  "patches"
+]
+
+const FOLD_OFFSET_REGEX = /^offset\([+-]?\d+,\s+[+-]?\d+\)$/
+
+const INDENT_REGEX =
+  /^(?:flat|continued|delimited\(.+\)|continued\(.+\)|add\([+-]?\d+\)|set\([+-]?\d+\))$/
+
+const MATCH_INDEX_REGEX = /^\$(?:\d+|[A-Za-z_]\w*)$/
+
+const LIST_PATH_REGEX = /^(?:root|global|(?:includes|repository)\.[^]+)$/
+
+/**
+ * Checks the structure of a grammar definition, without compiling it.
+ * Every problem found is returned, each with the JSON path to where it was
+ * found. If the returned list is empty, the definition is valid.
+ *
+ * This only checks if the definition is well-formed. Problems like
+ * references to rules that don't exist are found when the grammar is compiled.
+ *
+ * @param def - The grammar definition to check.
+ */
+export function validateGrammar(def: unknown): GrammarDiagnostic[] {
+  const validator = new Validator()
+  validator.grammar(def)
+  return validator.diagnostics
+}
+
+/** Walks a grammar definition, collecting any structural problems found. */
+class Validator {
+  /** The list of problems found so far. */
+  diagnostics: GrammarDiagnostic[] = []
+
+  /**
+   * Records a problem.
+   *
+   * @param path - The path to the offending value.
+   * @param message - A description of the problem.
+   */
+  private report(path: string, message: string) {
+    this.diagnostics.push({ path, message })
+  }
+
+  /**
+   * Checks a grammar definition.
+   *
+   * @param def - The grammar definition to check.
+   * @param path - The path to the grammar definition, if it isn't the
+   *   top-level definition.
+   */
+  grammar(def: unknown, path = "") {
+    if (!this.object(def, path)) return
+
+    // grammars that extend another can inherit their root
+    this.keys(def, path, GRAMMAR_KEYS, def.extends === undefined ? ["root"] : [])
+
+    const comments = joinPath(path, "comments")
+    if (def.comments !== undefined && this.object(def.comments, comments)) {
+      const block = joinPath(comments, "block")
+      this.keys(def.comments, comments, ["block", "line"])
+      if (def.comments.block !== undefined && this.object(def.comments.block, block)) {
+        this.keys(def.comments.block, block, ["open", "close"], ["open", "close"])
+        this.string(def.comments.block.open, joinPath(block, "open"))
+        this.string(def.comments.block.close, joinPath(block, "close"))
+      }
+      if (def.comments.line !== undefined) {
+        this.string(def.comments.line, joinPath(comments, "line"))
+      }
+    }
+
+    const closeBrackets = joinPath(path, "closeBrackets")
+    if (
+      def.closeBrackets !== undefined &&
+      this.object(def.closeBrackets, closeBrackets)
+    ) {
+      this.keys(def.closeBrackets, closeBrackets, ["brackets", "before"])
+      if (def.closeBrackets.brackets !== undefined) {
+        this.strings(def.closeBrackets.brackets, joinPath(closeBrackets, "brackets"))
+      }
+      if (def.closeBrackets.before !== undefined) {
+        this.string(def.closeBrackets.before, joinPath(closeBrackets, "before"))
+      }
+    }
+
+    if (def.indentOnInput !== undefined) {
+      this.regex(def.indentOnInput, joinPath(path, "indentOnInput"))
+    }
+    if (def.wordChars !== undefined) {
+      this.string(def.wordChars, joinPath(path, "wordChars"))
+    }
+    if (def.default !== undefined) this.node(def.default, joinPath(path, "default"))
+
+    this.importable(def, path)
+
+    if (def.global !== undefined) this.inside(def.global, joinPath(path, "global"))
+    if (def.root !== undefined) this.inside(def.root, joinPath(path, "root"))
+
+    if (def.extends !== undefined) this.grammar(def.extends, joinPath(path, "extends"))
+
+    const patches = joinPath(path, "patches")
+    if (def.patches !== undefined) {
+      if (!Array.isArray(def.patches)) this.report(patches, "Expected a list of patches")
+      else def.patches.forEach((patch, idx) => this.patch(patch, joinPath(patches, idx)))
+    }
+  }
+
+  /** Checks a patch for a grammar that extends another. */
+  patch(patch: unknown, path: string) {
+    if (!this.object(patch, path)) return
+
+    if ("insert" in patch) {
+      this.keys(patch, path, ["insert", "into", "before", "after"], ["into"])
+      const insert = joinPath(path, "insert")
+      this.inside(Array.isArray(patch.insert) ? patch.insert : [patch.insert], insert)
+      this.listPath(patch.into, joinPath(path, "into"))
+      if (patch.before !== undefined) this.string(patch.before, joinPath(path, "before"))
+      if (patch.after !== undefined) this.string(patch.after, joinPath(path, "after"))
+      if (patch.before !== undefined && patch.after !== undefined) {
+        this.report(path, 'Only one of "before" or "after" can be given')
+      }
+    } else if ("replace" in patch) {
+      this.keys(patch, path, ["replace", "with"], ["with"])
+      this.string(patch.replace, joinPath(path, "replace"))
+      if (patch.with !== undefined) {
+        this.repositoryItem(patch.with, joinPath(path, "with"))
+      }
+    } else if ("remove" in patch) {
+      this.keys(patch, path, ["remove", "from"], ["from"])
+      const remove = joinPath(path, "remove")
+      if (Array.isArray(patch.remove)) this.strings(patch.remove, remove)
+      else this.string(patch.remove, remove)
+      this.listPath(patch.from, joinPath(path, "from"))
+    } else {
+      this.report(
+        path,
+        'Expected a patch, with an "insert", "replace", or "remove" property'
+      )
+    }
+  }
+
+  /** Checks the path to a list of rules, as used by patches. */
+  listPath(target: unknown, path: string) {
+    if (!this.string(target, path)) return
+    if (!LIST_PATH_REGEX.test(target)) {
+      this.report(
+        path,
+        'Expected "root", "global", "includes.name", or "repository.Name"'
+      )
+    }
+  }
+
+  /**
+   * Checks the properties of a grammar that are used when it's imported.
+   *
+   * @param def - The grammar definition to check.
+   * @param path - The path to the grammar definition.
+   */
+  importable(def: Obj, path: string) {
+    if (def.ignoreCase !== undefined) {
+      this.boolean(def.ignoreCase, joinPath(path, "ignoreCase"))
+    }
+
+    const repository = joinPath(path, "repository")
+    if (def.repository !== undefined && this.object(def.repository, repository)) {
+      for (const name in def.repository) {
+        if (name.includes(".")) {
+          this.report(joinPath(repository, name), "Names can't contain a period")
+        }
+        this.repositoryItem(def.repository[name], joinPath(repository, name))
+      }
+    }
+
+    const includes = joinPath(path, "includes")
+    if (def.includes !== undefined && this.object(def.includes, includes)) {
+      for (const name in def.includes) {
+        this.strings(def.includes[name], joinPath(includes, name))
+      }
+    }
+
+    const macros = joinPath(path, "macros")
+    if (def.macros !== undefined && this.object(def.macros, macros)) {
+      for (const name in def.macros) this.macro(def.macros[name], joinPath(macros, name))
+    }
+
+    const imports = joinPath(path, "imports")
+    if (def.imports !== undefined && this.object(def.imports, imports)) {
+      for (const name in def.imports) {
+        const importPath = joinPath(imports, name)
+        if (!this.object(def.imports[name], importPath)) continue
+        this.keys(def.imports[name], importPath, GRAMMAR_KEYS)
+        this.importable(def.imports[name], importPath)
+      }
+    }
+  }
+
+  /** Checks an item in the repository, which can be nearly anything. */
+  repositoryItem(item: unknown, path: string) {
+    if (typeof item === "string") {
+      if (isRegExpString(item)) this.regex(item, path)
+      return
+    }
+
+    if (!this.object(item, path, "Expected a regex, node, rule, or state")) return
+
+    if ("is" in item) this.reuse(item, path)
+    else if ("macro" in item) this.macroCall(item, path)
+    else if ("begin" in item || "end" in item) this.state(item, path)
+    else if (isRule(item)) this.rule(item, path)
+    else this.node(item, path)
+  }
+
+  /** Checks a node definition, or the node properties of a rule or state. */
+  node(node: unknown, path: string, keys = NODE_KEYS) {
+    if (!this.object(node, path)) return
+
+    this.keys(node, path, keys)
+
+    for (const key of ["type", "open", "close", "nest", "tag"]) {
+      if (node[key] !== undefined) this.string(node[key], joinPath(path, key))
+    }
+
+    if (node.emit !== undefined && typeof node.emit !== "string") {
+      this.boolean(node.emit, joinPath(path, "emit"), "Expected a string or boolean")
+    }
+
+    if (node.error !== undefined) this.boolean(node.error, joinPath(path, "error"))
+
+    for (const key of ["openedBy", "closedBy", "group"]) {
+      if (node[key] === undefined) continue
+      const keyPath = joinPath(path, key)
+      if (Array.isArray(node[key])) this.strings(node[key], keyPath)
+      else this.string(node[key], keyPath, "Expected a string or list of strings")
+    }
+
+    if (
+      node.autocomplete !== undefined &&
+      node.autocomplete !== true &&
+      typeof node.autocomplete !== "string"
+    ) {
+      this.report(joinPath(path, "autocomplete"), "Expected true or a string")
+    }
+
+    if (node.fold !== undefined) {
+      const { fold } = node
+      if (
+        typeof fold !== "boolean" &&
+        fold !== "inside" &&
+        fold !== "past_first_line" &&
+        !(typeof fold === "string" && FOLD_OFFSET_REGEX.test(fold))
+      ) {
+        this.report(
+          joinPath(path, "fold"),
+          'Expected a boolean, "inside", "past_first_line", or "offset(n, n)"'
+        )
+      }
+    }
+
+    if (node.indent !== undefined) {
+      if (typeof node.indent !== "string" || !INDENT_REGEX.test(node.indent)) {
+        this.report(joinPath(path, "indent"), `Invalid indent: ${String(node.indent)}`)
+      }
+    }
+  }
+
+  /** Checks a reused node, e.g. `{ is: Foo }`. */
+  reuse(reuse: Record<string, unknown>, path: string) {
+    this.keys(reuse, path, ["is"])
+    this.string(reuse.is, joinPath(path, "is"))
+  }
+
+  /** Checks a lookup, pattern, or chain rule. */
+  rule(rule: unknown, path: string) {
+    if (!this.object(rule, path)) return
+
+    if ("lookup" in rule) {
+      this.ruleOptions(rule, path, [...RULE_KEYS, "lookup"])
+      const lookup = rule.lookup
+      if (typeof lookup === "string") {
+        if (!lookup.startsWith("$var:")) {
+          this.report(
+            joinPath(path, "lookup"),
+            "Expected a list of strings or a $var: variable"
+          )
+        }
+      } else if (this.strings(lookup, joinPath(path, "lookup")) && !lookup.length) {
+        this.report(joinPath(path, "lookup"), "Expected at least one string")
+      }
+    } else if ("match" in rule) {
+      this.ruleOptions(rule, path, [...RULE_KEYS, "match"])
+      const match = rule.match
+      if (Array.isArray(match)) {
+        if (!match.length) {
+          this.report(joinPath(path, "match"), "Expected at least one pattern")
+        }
+        match.forEach((pattern, idx) =>
+          this.pattern(pattern, joinPath(path, "match", idx))
+        )
+      } else {
+        this.pattern(match, joinPath(path, "match"))
+      }
+    } else if ("chain" in rule) {
+      this.ruleOptions(rule, path, [
+        ...RULE_KEYS,
+        "chain",
+        "skip",
+        "backtrack",
+        "recover"
+      ])
+      if (this.strings(rule.chain, joinPath(path, "chain"))) {
+        if (!rule.chain.length) {
+          this.report(joinPath(path, "chain"), "Expected at least one item")
+        }
+        rule.chain.forEach((item, idx) =>
+          this.chainItem(item, joinPath(path, "chain", idx))
+        )
+      }
+      if (Array.isArray(rule.skip)) {
+        rule.skip.forEach((skip, idx) => this.skip(skip, joinPath(path, "skip", idx)))
+      } else if (rule.skip !== undefined) {
+        this.skip(rule.skip, joinPath(path, "skip"))
+      }
+      if (rule.backtrack !== undefined) {
+        this.boolean(rule.backtrack, joinPath(path, "backtrack"))
+      }
+      const { recover } = rule
+      if (
+        recover !== undefined &&
+        typeof recover !== "boolean" &&
+        !(Number.isInteger(recover) && (recover as number) > 0)
+      ) {
+        this.report(joinPath(path, "recover"), "Expected a boolean or a positive integer")
+      }
+    } else {
+      this.report(path, 'Expected a rule, with a "lookup", "match", or "chain" property')
+    }
+  }
+
+  /** Checks the options every kind of rule has. */
+  ruleOptions(rule: Record<string, unknown>, path: string, keys: string[]) {
+    this.node(rule, path, keys)
+
+    if (
+      rule.captures !== undefined &&
+      this.object(rule.captures, joinPath(path, "captures"))
+    ) {
+      for (const key in rule.captures) {
+        const capturePath = joinPath(path, "captures", key)
+        if (!/^(?:\d+|[A-Za-z_]\w*)$/.test(key)) {
+          this.report(
+            capturePath,
+            "Capture keys must be capturing group indexes or names"
+          )
+        }
+        const capture = rule.captures[key]
+        if (!this.object(capture, capturePath)) continue
+        if ("matches" in capture) this.captureCondition(capture, capturePath)
+        else if ("is" in capture) this.reuse(capture, capturePath)
+        else this.node(capture, capturePath)
+      }
+    }
+
+    if (rule.context !== undefined) {
+      if (Array.isArray(rule.context)) {
+        rule.context.forEach((setter, idx) => {
+          this.contextSetter(setter, joinPath(path, "context", idx))
+        })
+      } else {
+        this.contextSetter(rule.context, joinPath(path, "context"))
+      }
+    }
+
+    if (rule.contextImmediate !== undefined) {
+      this.boolean(rule.contextImmediate, joinPath(path, "contextImmediate"))
+    }
+
+    if (rule.lookbehind !== undefined) {
+      const lookbehind = rule.lookbehind
+      if (typeof lookbehind === "string" && lookbehind.startsWith("!")) {
+        this.regex(lookbehind.slice(1), joinPath(path, "lookbehind"), "")
+      } else {
+        this.regex(lookbehind, joinPath(path, "lookbehind"), "")
+      }
+    }
+
+    if (rule.lookahead !== undefined) {
+      this.regex(rule.lookahead, joinPath(path, "lookahead"))
+    }
+    if (rule.rematch !== undefined) this.boolean(rule.rematch, joinPath(path, "rematch"))
+
+    if (
+      rule.read !== undefined &&
+      rule.read !== "line" &&
+      rule.read !== "paragraph" &&
+      rule.read !== "unbounded"
+    ) {
+      this.report(joinPath(path, "read"), 'Expected "line", "paragraph", or "unbounded"')
+    }
+  }
+
+  /** Checks a state definition. */
+  state(state: Record<string, unknown>, path: string) {
+    this.node(state, path, [...NODE_KEYS, "begin", "end", "inside"])
+
+    for (const key of ["begin", "end"]) {
+      const value = state[key]
+      if (value === undefined) this.report(path, `Missing required property "${key}"`)
+      else if (typeof value !== "string") this.rule(value, joinPath(path, key))
+    }
+
+    const inside = state.inside
+    if (inside === undefined || inside === "inherit" || inside === "loose") return
+
+    if (Array.isArray(inside)) this.inside(inside, joinPath(path, "inside"))
+    else if (typeof inside === "string") {
+      this.report(
+        joinPath(path, "inside"),
+        'Expected a list, a node, "inherit", or "loose"'
+      )
+    } else if (this.object(inside, joinPath(path, "inside"))) {
+      if ("is" in inside) this.reuse(inside, joinPath(path, "inside"))
+      else this.node(inside, joinPath(path, "inside"))
+    }
+  }
+
+  /** Checks a list of rules, states, and includes. */
+  inside(inside: unknown, path: string) {
+    if (!Array.isArray(inside)) {
+      this.report(path, "Expected a list of rules, states, or includes")
+      return
+    }
+
+    inside.forEach((item: unknown, idx) => {
+      const itemPath = joinPath(path, idx)
+      if (typeof item === "string") return
+      if (!this.object(item, itemPath, "Expected a name, rule, state, or include")) return
+      if ("include" in item) {
+        this.keys(item, itemPath, ["include"])
+        this.string(item.include, joinPath(itemPath, "include"))
+      } else if ("macro" in item) {
+        this.macroCall(item, itemPath)
+      } else if ("begin" in item || "end" in item) {
+        this.state(item, itemPath)
+      } else {
+        this.rule(item, itemPath)
+      }
+    })
+  }
+
+  /**
+   * Checks a macro definition. Its body can only be checked once it has
+   * been expanded, as parameters can stand in for anything.
+   */
+  macro(macro: unknown, path: string) {
+    if (!this.object(macro, path)) return
+    this.keys(macro, path, ["params", "body"], ["body"])
+    if (
+      macro.params !== undefined &&
+      this.strings(macro.params, joinPath(path, "params"))
+    ) {
+      macro.params.forEach((param, idx) => {
+        if (!/^\w+$/.test(param)) {
+          this.report(joinPath(path, "params", idx), "Parameter names must be words")
+        }
+      })
+    }
+  }
+
+  /** Checks a macro call, e.g. `{ macro: delimited, args: ["(", ")"] }`. */
+  macroCall(call: Record<string, unknown>, path: string) {
+    this.keys(call, path, ["macro", "args"], ["macro"])
+    this.string(call.macro, joinPath(path, "macro"))
+    if (call.args !== undefined && !Array.isArray(call.args)) {
+      this.report(joinPath(path, "args"), "Expected a list of arguments")
+    }
+  }
+
+  /** Checks a capture condition. */
+  captureCondition(cond: Record<string, unknown>, path: string) {
+    this.keys(cond, path, ["if", "matches", "then", "else"], ["matches"])
+    if (cond.if !== undefined) this.matchIndex(cond.if, joinPath(path, "if"))
+    this.pattern(cond.matches, joinPath(path, "matches"))
+    for (const key of ["then", "else"]) {
+      const value = cond[key]
+      if (value === undefined || !this.object(value, joinPath(path, key))) continue
+      if ("is" in value) this.reuse(value, joinPath(path, key))
+      else this.node(value, joinPath(path, key))
+    }
+  }
+
+  /** Checks a context setter. */
+  contextSetter(setter: unknown, path: string) {
+    if (!this.object(setter, path)) return
+    this.keys(setter, path, ["if", "matches", "set", "to"], ["set", "to"])
+    if (setter.if !== undefined) this.matchIndex(setter.if, joinPath(path, "if"))
+    if (setter.matches !== undefined) {
+      this.pattern(setter.matches, joinPath(path, "matches"))
+    }
+    if (setter.set !== undefined) this.string(setter.set, joinPath(path, "set"))
+    if (setter.to !== undefined && setter.to !== null) {
+      this.string(setter.to, joinPath(path, "to"), "Expected a string or null")
+    }
+  }
+
+  /** Checks a regex, rule name, or rule that a chain skips. */
+  skip(skip: unknown, path: string) {
+    if (typeof skip === "string") {
+      if (isRegExpString(skip)) this.regex(skip, path)
+    } else if (typeof skip === "object" && skip !== null) {
+      this.rule(skip, path)
+    } else {
+      this.report(path, "Expected a regex, rule name, or rule")
+    }
+  }
+
+  /** Checks the syntax of a chain item string. */
+  chainItem(item: string, path: string) {
+    if (!item.trim()) {
+      this.report(path, "Chain items can't be empty")
+    } else if (/\|[*+]/.test(item) && /\|(?![*+])/.test(item)) {
+      this.report(path, "Cannot mix |* (or |+) and |")
+    } else if (/\|\*/.test(item) && /\|\+/.test(item)) {
+      this.report(path, "Cannot have repeating alternatives with both * and +")
+    } else if (
+      /[(){}&!]/.test(item) ||
+      /[^\s|]\s+[^\s|]/.test(item.replace(/\|[*+]?/g, "|"))
+    ) {
+      // groups, sequences, and predicates, e.g. (A | B C)+ or !A
+      let depth = 0
+      for (const char of item) {
+        if (char === "(") depth++
+        else if (char === ")" && --depth < 0) break
+      }
+      if (depth !== 0) {
+        this.report(path, "Unbalanced parentheses")
+      } else if (/\|[*+]/.test(item)) {
+        this.report(path, "Cannot use |* (or |+) with groups, use (A | B)* instead")
+      } else if (/\(\s*[|)]|\|\s*(?:\||\)|$)|^\s*\|/.test(item)) {
+        this.report(path, "Groups and alternatives can't be empty")
+      } else if (/[&!]\s*(?:[|)]|$)/.test(item)) {
+        this.report(path, "Expected a rule name or group after a predicate")
+      } else if (/[&!]\s*[^\s()|?*+&!{}]+\s*[?*+{]/.test(item)) {
+        this.report(path, "Predicates can't have a quantifier")
+      } else {
+        for (const [quantifier] of item.matchAll(/\{[^}]*\}?/g)) {
+          this.boundedQuantifier(quantifier, path)
+        }
+      }
+    }
+  }
+
+  /** Checks a `{m,n}` quantifier of a chain item. */
+  boundedQuantifier(quantifier: string, path: string) {
+    const match = /^\{\s*(\d+)\s*(,\s*(\d*)\s*)?\}$/.exec(quantifier)
+    if (!match) {
+      this.report(path, `Invalid quantifier "${quantifier}", expected e.g. {1,6}`)
+      return
+    }
+    const min = parseInt(match[1], 10)
+    const max = !match[2] ? min : match[3] ? parseInt(match[3], 10) : Infinity
+    if (max < min || max === 0) this.report(path, `Invalid quantifier "${quantifier}"`)
+  }
+
+  /** Checks a string or regex pattern. */
+  pattern(pattern: unknown, path: string) {
+    const message = "Expected a string, regex, or { matcher }"
+    if (typeof pattern === "object" && pattern !== null) {
+      if (!this.object(pattern, path, message)) return
+      this.keys(pattern, path, ["matcher"], ["matcher"])
+      if (pattern.matcher !== undefined) {
+        this.string(pattern.matcher, joinPath(path, "matcher"))
+      }
+      return
+    }
+    if (!this.string(pattern, path, message)) return
+    if (isRegExpString(pattern)) this.regex(pattern, path)
+  }
+
+  /** Checks a capture reference, e.g. `$0` or `$label`. */
+  matchIndex(index: unknown, path: string) {
+    if (typeof index !== "string" || !MATCH_INDEX_REGEX.test(index)) {
+      this.report(path, "Expected a capture reference, e.g. $0 or $label")
+    }
+  }
+
+  /**
+   * Checks that a value is a regex string that can be compiled.
+   *
+   * @param regex - The value to check.
+   * @param path - The path to the value.
+   * @param forceFlags - Flags the regex will be compiled with.
+   */
+  regex(regex: unknown, path: string, forceFlags = "u") {
+    if (typeof regex !== "string" || !isRegExpString(regex)) {
+      this.report(path, "Expected a regex, e.g. /foo/")
+      return
+    }
+
+    const [, src, flags] = /^!?\/([^]+)\/([^]*)$/.exec(regex)!
+
+    try {
+      new RegExp(src, dedupe([...flags, ...forceFlags]).join(""))
+    } catch (err) {
+      this.report(path, `Invalid regex: ${(err as Error).message}`)
+    }
+  }
+
+  /**
+   * Checks for unknown and missing properties on an object.
+   *
+   * @param obj - The object to check.
+   * @param path - The path to the object.
+   * @param known - Every property the object may have.
+   * @param required - Properties the object must have.
+   */
+  keys(
+    obj: Record<string, unknown>,
+    path: string,
+    known: string[],
+    required: string[] = []
+  ) {
+    for (const key in obj) {
+      if (!known.includes(key)) {
+        this.report(joinPath(path, key), `Unknown property "${key}"`)
+      }
+    }
+    for (const key of required) {
+      if (obj[key] === undefined) this.report(path, `Missing required property "${key}"`)
+    }
+  }
+
+  /** Checks that a value is a plain object. */
+  object(value: unknown, path: string, message = "Expected an object"): value is Obj {
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) return true
+    this.report(path, message)
+    return false
+  }
+
+  /** Checks that a value is a string. */
+  string(value: unknown, path: string, message = "Expected a string"): value is string {
+    if (typeof value === "string") return true
+    this.report(path, message)
+    return false
+  }
+
+  /** Checks that a value is a list of strings. */
+  strings(value: unknown, path: string): value is string[] {
+    if (!Array.isArray(value)) {
+      this.report(path, "Expected a list of strings")
+      return false
+    }
+    let valid = true
+    value.forEach((item, idx) => {
+      if (!this.string(item, joinPath(path, idx))) valid = false
+    })
+    return valid
+  }
+
+  /** Checks that a value is a boolean. */
+  boolean(
+    value: unknown,
+    path: string,
+    message = "Expected a boolean"
+  ): value is boolean {
+    if (typeof value === "boolean") return true
+    this.report(path, message)
+    return false
+  }
+}
+
+type Obj = Record<string, any>
+
+/** Returns true if the given object looks like a rule definition. */
+function isRule(obj: Obj) {
+  return "lookup" in obj || "match" in obj || "chain" in obj
+}
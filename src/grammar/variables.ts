@@ -0,0 +1,139 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type { Variable, VariableTable } from "../types"
+import { escapeRegExp, isRegExpString, re } from "../util"
+import { GrammarCompileError } from "./error"
+
+/**
+ * How the source being expanded is used, which decides how variables are
+ * inserted into it.
+ *
+ * - `regexp`: The source of a regex. Regex variables are inserted as groups,
+ *   and anything else is escaped, so that it's matched literally.
+ * - `string`: A plain string. Only string variables can be used, and they're
+ *   inserted as they are.
+ */
+export type ExpansionMode = "regexp" | "string"
+
+/**
+ * Expands the `@name` variables in a pattern source. Variables can refer
+ * to other variables, which are expanded first, but not to themselves.
+ *
+ * @param src - The source to expand.
+ * @param variables - The variable table to use.
+ * @param mode - How the source is used. See {@link ExpansionMode}.
+ * @param partial - If true, names that aren't in the table are left as
+ *   they are, rather than being an error.
+ */
+export function expandVariables(
+  src: string,
+  variables: VariableTable,
+  mode: ExpansionMode,
+  partial = false
+) {
+  return expand(src, variables, mode, partial, [])
+}
+
+/**
+ * Expands a source, keeping track of the variables being expanded, so that
+ * a variable that refers to itself can be found.
+ *
+ * @param src - The source to expand.
+ * @param variables - The variable table to use.
+ * @param mode - How the source is used.
+ * @param partial - If true, unknown names are left as they are.
+ * @param stack - The names of the variables being expanded.
+ */
+function expand(
+  src: string,
+  variables: VariableTable,
+  mode: ExpansionMode,
+  partial: boolean,
+  stack: string[]
+): string {
+  return src.replace(/@(\w+)/g, (reference, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      if (partial) return reference
+      throw new GrammarCompileError(`Variable "${name}" not found`, "", src)
+    }
+
+    if (stack.includes(name)) {
+      const cycle = [...stack.slice(stack.indexOf(name)), name].join(" -> ")
+      throw new GrammarCompileError(
+        `Variable "${name}" refers to itself (${cycle})`,
+        "",
+        src
+      )
+    }
+
+    const next = [...stack, name]
+    const value = variables[name]
+
+    return mode === "regexp"
+      ? regexpValue(name, value, variables, partial, next)
+      : stringValue(name, value, variables, partial, next)
+  })
+}
+
+/**
+ * Returns a variable as it's inserted into the source of a regex.
+ *
+ * @param name - The name of the variable.
+ * @param value - The value of the variable.
+ * @param variables - The variable table to use.
+ * @param partial - If true, unknown names are left as they are.
+ * @param stack - The names of the variables being expanded, including this one.
+ */
+function regexpValue(
+  name: string,
+  value: Variable,
+  variables: VariableTable,
+  partial: boolean,
+  stack: string[]
+) {
+  // a string that is a regex, or a literal string
+  const source = (str: string) => {
+    if (!isRegExpString(str)) {
+      return escapeRegExp(expand(str, variables, "string", partial, stack))
+    }
+    const regexp = re(str)
+    if (!regexp) throw new GrammarCompileError(`Variable "${name}" is an invalid regex`)
+    return expand(regexp.source, variables, "regexp", partial, stack)
+  }
+
+  if (typeof value === "string") return `(?:${source(value)})`
+
+  if (Array.isArray(value)) return `(?:${value.map(source).join("|")})`
+
+  if (value instanceof RegExp) {
+    return `(?:${expand(value.source, variables, "regexp", partial, stack)})`
+  }
+
+  throw new GrammarCompileError(
+    `Variable "${name}" is a Matcher, which can only be used as a { matcher: "${name}" } pattern`
+  )
+}
+
+/**
+ * Returns a variable as it's inserted into a plain string.
+ *
+ * @param name - The name of the variable.
+ * @param value - The value of the variable.
+ * @param variables - The variable table to use.
+ * @param partial - If true, unknown names are left as they are.
+ * @param stack - The names of the variables being expanded, including this one.
+ */
+function stringValue(
+  name: string,
+  value: Variable,
+  variables: VariableTable,
+  partial: boolean,
+  stack: string[]
+) {
+  if (typeof value !== "string") {
+    throw new GrammarCompileError(`Variable "${name}" is not a string`)
+  }
+  return expand(value, variables, "string", partial, stack)
+}
@@ -0,0 +1,1020 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type * as DF from "../grammar/definition"
+import type { ConvertedGrammar, GrammarDiagnostic } from "../types"
+import { escapeRegExp, joinPath } from "../util"
+import { tileCaptures, tokenize, translatePattern } from "./regexp"
+import { sanitize, scopeToTag, scopeToType } from "./scopes"
+
+/** A Monarch language definition, as used by Monaco. */
+export interface MonarchLanguage {
+  /** The states of the tokenizer, by name. */
+  tokenizer: Record<string, MonarchRule[]>
+  /** If true, every pattern is matched case insensitively. */
+  ignoreCase?: boolean
+  /** The token given to anything no rule matched. */
+  defaultToken?: string
+  /** A postfix Monaco adds to every token, which is ignored. */
+  tokenPostfix?: string
+  /** The brackets of the language, used by the `@brackets` token. */
+  brackets?: MonarchBracket[]
+  /** The state to start in. Defaults to the first state of the tokenizer. */
+  start?: string
+  /** Attributes, like lists of keywords or patterns, referenced with `@name`. */
+  [attribute: string]: unknown
+}
+
+/** A rule in a state of a {@link MonarchLanguage}. */
+export type MonarchRule =
+  | [regex: string | RegExp, action: MonarchAction]
+  | [regex: string | RegExp, action: MonarchAction, next: string]
+  | { regex: string | RegExp; action: MonarchAction }
+  | { include: string }
+
+/**
+ * What to do when a {@link MonarchRule} matches. Either a token, an action
+ * object, or a list of actions, one for each group of the pattern.
+ */
+export type MonarchAction = string | MonarchActionObject | MonarchAction[]
+
+/** The object form of a {@link MonarchAction}. */
+export interface MonarchActionObject {
+  /** The token given to the match, e.g. `keyword`, `@brackets`, or `@rematch`. */
+  token?: string
+  /** The state to go to, e.g. `@string`, `@push`, or `@pop`. */
+  next?: string
+  /** Replaces the current state. Not supported. */
+  switchTo?: string
+  /** Backs up the input, so that only part of the match is used. Not supported. */
+  goBack?: number
+  /** Marks the match as an opening or closing bracket. */
+  bracket?: "@open" | "@close"
+  /** Actions to choose from by their guards, e.g. `@keywords` or `@default`. */
+  cases?: Record<string, MonarchAction>
+  /** The language to nest inside of the state being entered. */
+  nextEmbedded?: string
+  /** A message Monaco logs when the action is used, which is ignored. */
+  log?: string
+}
+
+/** A pair of brackets, either as an object or as `[open, close, token]`. */
+export type MonarchBracket =
+  | { open: string; close: string; token: string }
+  | [open: string, close: string, token: string]
+
+/**
+ * Converts a Monarch language definition into a grammar definition.
+ * Tokenizer states become includes, and rules that enter a state (with
+ * `@push` or `@name`) become Tarnation states, which end with the rules of
+ * the entered state that `@pop`. Keyword lists checked with `cases` become
+ * lookup rules where possible, and other `cases` become capture conditions.
+ *
+ * Actions without an equivalent, like `switchTo` or substitutions using
+ * `$`, are skipped or ignored and reported.
+ *
+ * @param lang - The Monarch language to convert.
+ */
+export function fromMonarch(lang: MonarchLanguage): ConvertedGrammar {
+  const converter = new Converter(lang)
+  return { grammar: converter.convert(), diagnostics: converter.diagnostics }
+}
+
+/**
+ * A converted rule. Rules that leave their state are kept separate, as
+ * they are only used as the `end` of the Tarnation states that enter it.
+ */
+interface Converted {
+  /** The name of the rule. */
+  name: string
+  /** The rule, if it leaves its state. */
+  pop?: DF.Rule
+}
+
+/** An item in a converted tokenizer state. */
+type Entry = Converted | { include: string }
+
+/** A parsed `cases` guard. */
+type Guard =
+  | { kind: "default" }
+  | { kind: "eos" }
+  | { kind: "test"; source: string; words?: string[] }
+
+/** Converts a {@link MonarchLanguage}, collecting anything that couldn't be converted. */
+class Converter {
+  /** The list of problems found so far. */
+  diagnostics: GrammarDiagnostic[] = []
+
+  /** The converted repository. */
+  private repository: Record<string, DF.RepositoryItem> = {}
+
+  /** The converted tokenizer states, by name. */
+  private states = new Map<string, Entry[]>()
+
+  /** Tokenizer states that still need to be converted. */
+  private queue: string[] = []
+
+  /** Tokenizer states that are used as the inside of a Tarnation state. */
+  private used = new Set<string>()
+
+  /** Tarnation states, along with the tokenizer state they enter. */
+  private pending: [state: DF.State, target: string][] = []
+
+  /** The names of the `end` rules of tokenizer states. */
+  private ends = new Map<string, string>()
+
+  /** The include names of tokenizer states. */
+  private includes = new Map<string, string>()
+
+  /** Names that are already taken, either by repository items or node types. */
+  private names = new Set<string>()
+
+  /** Node types created for captures, by the node they're for. */
+  private captureTypes = new Map<string, string>()
+
+  /** Translated patterns of attributes, by name. */
+  private variables = new Map<string, string>()
+
+  /** Flags used for patterns tested outside of the grammar. */
+  private flags: string
+
+  /** @param lang - The Monarch language to convert. */
+  constructor(private lang: MonarchLanguage) {
+    this.flags = lang.ignoreCase ? "i" : ""
+  }
+
+  /**
+   * Records a problem, unless the exact same problem was already recorded.
+   *
+   * @param path - The path to the offending value in the Monarch language.
+   * @param message - A description of the problem.
+   */
+  private report(path: string, message: string) {
+    if (this.diagnostics.some(d => d.path === path && d.message === message)) return
+    this.diagnostics.push({ path, message })
+  }
+
+  /** Converts the entire language. */
+  convert(): DF.Grammar {
+    const { lang } = this
+    const tokenizer = lang.tokenizer ?? {}
+
+    // attributes are added to the repository under their own names
+    for (const key in lang) this.names.add(key)
+
+    for (const state in tokenizer) this.includes.set(state, this.unique(sanitize(state)))
+
+    const start = lang.start ?? Object.keys(tokenizer)[0]
+
+    if (start === undefined || !(start in tokenizer)) {
+      this.report(
+        lang.start !== undefined ? "start" : "tokenizer",
+        `State "${start ?? ""}" not found`
+      )
+      return { repository: this.repository, root: [] }
+    }
+
+    this.queue.push(start)
+    this.used.add(start)
+
+    while (this.queue.length) {
+      const state = this.queue.shift()!
+      if (!this.states.has(state)) this.states.set(state, this.state(state))
+    }
+
+    for (const [def, target] of this.pending) def.end = this.end(target)
+
+    const includes: Record<string, string[]> = {}
+    for (const state of this.used) {
+      const names = this.flatten(state, new Set())
+        .filter(converted => !converted.pop)
+        .map(converted => converted.name)
+      includes[this.includes.get(state)!] = [...new Set(names)]
+    }
+
+    const grammar: DF.Grammar = {
+      repository: this.repository,
+      includes,
+      root: [{ include: this.includes.get(start)! }]
+    }
+
+    if (lang.ignoreCase) grammar.ignoreCase = true
+
+    if (lang.defaultToken) {
+      const node = this.capture(this.node({ token: lang.defaultToken }, "defaultToken"))
+      if (node) grammar.default = node
+    }
+
+    return grammar
+  }
+
+  /**
+   * Returns a unique name, based on the given one.
+   *
+   * @param base - The name to start with.
+   */
+  private unique(base: string) {
+    let name = base
+    for (let i = 2; this.names.has(name); i++) name = `${base}_${i}`
+    this.names.add(name)
+    return name
+  }
+
+  /**
+   * Finds a tokenizer state by name, queueing it to be converted. Like
+   * Monarch, if a dotted name like `string.double` isn't found, its
+   * parent, `string`, is tried instead. Returns null if the state isn't found.
+   *
+   * @param name - The name of the state, without the `@` prefix.
+   * @param path - The path to where the state is referenced.
+   */
+  private target(name: string, path: string) {
+    const { tokenizer } = this.lang
+    let found = name
+    while (!(found in tokenizer) && found.includes(".")) {
+      found = found.slice(0, found.lastIndexOf("."))
+    }
+    if (!(found in tokenizer)) {
+      this.report(path, `State "${name}" not found`)
+      return null
+    }
+    this.queue.push(found)
+    return found
+  }
+
+  /**
+   * Converts the rules of a tokenizer state.
+   *
+   * @param name - The name of the state.
+   */
+  private state(name: string): Entry[] {
+    const rules = this.lang.tokenizer[name]
+    const path = joinPath("tokenizer", name)
+
+    if (!Array.isArray(rules)) {
+      this.report(path, "States must be lists of rules")
+      return []
+    }
+
+    const entries: Entry[] = []
+
+    rules.forEach((rule, idx) => {
+      const rulePath = joinPath(path, idx)
+
+      if (!Array.isArray(rule) && "include" in rule) {
+        const includePath = joinPath(rulePath, "include")
+        const target = this.target(rule.include.replace(/^@/, ""), includePath)
+        if (target) entries.push({ include: target })
+        return
+      }
+
+      const [regex, action, next] = Array.isArray(rule)
+        ? rule
+        : [rule.regex, rule.action, undefined]
+
+      const src = this.pattern(
+        regex,
+        joinPath(rulePath, Array.isArray(rule) ? 0 : "regex")
+      )
+      if (src === null) return
+
+      const actionPath = joinPath(rulePath, Array.isArray(rule) ? 1 : "action")
+      const base = sanitize(`${name}_${idx}`)
+
+      entries.push(...this.action(src, action, next, actionPath, name, base))
+    })
+
+    return entries
+  }
+
+  /**
+   * Translates a Monarch pattern, keeping references to attributes.
+   * Returns null if the pattern couldn't be translated.
+   *
+   * @param regex - The pattern.
+   * @param path - The path to the pattern.
+   */
+  private pattern(regex: unknown, path: string) {
+    const source =
+      typeof regex === "string" ? regex : regex instanceof RegExp ? regex.source : null
+
+    if (source === null) {
+      this.report(path, "Patterns must be strings or regexes")
+      return null
+    }
+
+    const missing: string[] = []
+
+    try {
+      const translated = translatePattern(source, name => {
+        if (this.attribute(name)) return true
+        missing.push(name)
+        return false
+      })
+      for (const name of missing) {
+        this.report(path, `Attribute "${name}" not found, or isn't a string or regex`)
+      }
+      return translated.source
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      this.report(path, `Pattern can't be translated: ${message}`)
+      return null
+    }
+  }
+
+  /**
+   * Adds an attribute that is referenced by a pattern to the repository,
+   * so that it can be used as a variable. Returns false if the attribute
+   * isn't a string or regex.
+   *
+   * @param name - The name of the attribute.
+   */
+  private attribute(name: string): boolean {
+    if (this.variables.has(name)) return true
+
+    const value = this.lang[name]
+    if (typeof value !== "string" && !(value instanceof RegExp)) return false
+
+    // set first, so that an attribute referencing itself doesn't loop
+    this.variables.set(name, "")
+
+    try {
+      const { source } = translatePattern(
+        typeof value === "string" ? value : value.source,
+        name => this.attribute(name)
+      )
+      this.variables.set(name, source)
+      this.repository[name] = `/${source}/`
+    } catch (err) {
+      this.variables.delete(name)
+      throw err
+    }
+
+    return true
+  }
+
+  /**
+   * Replaces references to attributes in a translated pattern with the
+   * attributes themselves, for patterns that are tested outside of the grammar.
+   *
+   * @param source - The translated pattern.
+   * @param seen - The attributes already being replaced, to avoid cycles.
+   */
+  private expand(source: string, seen = new Set<string>()): string {
+    return source.replace(/@(\w+)/g, (ref, name: string) => {
+      const value = this.variables.get(name)
+      if (value === undefined || seen.has(name)) return ref
+      return `(?:${this.expand(value, new Set([...seen, name]))})`
+    })
+  }
+
+  /**
+   * Returns a `RegExp` that tests if a string is matched entirely by a
+   * translated pattern.
+   *
+   * @param source - The translated pattern.
+   */
+  private whole(source: string) {
+    return new RegExp(`^(?:${this.expand(source)})$`, `${this.flags}u`)
+  }
+
+  /**
+   * Converts an action, returning the rules it became.
+   *
+   * @param src - The translated pattern of the rule.
+   * @param action - The Monarch action.
+   * @param next - The state given by the rule, if the rule is a list.
+   * @param path - The path to the action.
+   * @param state - The name of the tokenizer state the rule is in.
+   * @param base - The name to base the names of the rules on.
+   */
+  private action(
+    src: string,
+    action: MonarchAction,
+    next: string | undefined,
+    path: string,
+    state: string,
+    base: string
+  ): Converted[] {
+    if (Array.isArray(action)) return this.groups(src, action, next, path, state, base)
+
+    const obj: MonarchActionObject =
+      typeof action === "string" ? { token: action } : action
+
+    if (!obj.cases) return this.single(src, obj, next, path, state, base)
+
+    next = obj.next ?? next
+
+    const converted: Converted[] = []
+
+    for (const key in obj.cases) {
+      const casePath = joinPath(path, "cases", key)
+      const value = obj.cases[key]
+
+      if (Array.isArray(value)) {
+        this.report(casePath, "Group actions inside of cases aren't supported")
+        continue
+      }
+
+      const caseObj: MonarchActionObject =
+        typeof value === "string" ? { token: value } : value
+
+      if (caseObj.cases) {
+        this.report(joinPath(casePath, "cases"), "Nested cases aren't supported")
+        continue
+      }
+
+      const guard = this.guard(key, casePath)
+      if (!guard) continue
+
+      converted.push(...this.single(src, caseObj, next, casePath, state, base, guard))
+
+      // anything after the default case can't be reached
+      if (guard.kind === "default") break
+    }
+
+    return converted
+  }
+
+  /**
+   * Converts an action that isn't a list, and doesn't have cases.
+   *
+   * @param src - The translated pattern of the rule.
+   * @param action - The Monarch action.
+   * @param next - The state given by the rule, if not by the action.
+   * @param path - The path to the action.
+   * @param state - The name of the tokenizer state the rule is in.
+   * @param base - The name to base the names of the rules on.
+   * @param guard - The guard of the case the action is for, if any.
+   */
+  private single(
+    src: string,
+    action: MonarchActionObject,
+    next: string | undefined,
+    path: string,
+    state: string,
+    base: string,
+    guard?: Guard
+  ): Converted[] {
+    this.unsupported(action, path)
+
+    const parts: [source: string, node: DF.RuleOptions][] =
+      action.token === "@brackets"
+        ? this.brackets(src, path)
+        : [[src, this.node(action, path)]]
+
+    const converted: Converted[] = []
+
+    for (const [source, node] of parts) {
+      const rule = this.guarded(source, node, guard, path)
+      if (!rule) continue
+      converted.push(
+        this.enter(base, rule, action.next ?? next, action.nextEmbedded, path, state)
+      )
+    }
+
+    return converted
+  }
+
+  /**
+   * Converts an action that is a list, with an action for each group of
+   * the pattern, into a rule with captures.
+   *
+   * @param src - The translated pattern of the rule.
+   * @param actions - The Monarch actions.
+   * @param next - The state given by the rule, if not by an action.
+   * @param path - The path to the actions.
+   * @param state - The name of the tokenizer state the rule is in.
+   * @param base - The name to base the name of the rule on.
+   */
+  private groups(
+    src: string,
+    actions: MonarchAction[],
+    next: string | undefined,
+    path: string,
+    state: string,
+    base: string
+  ): Converted[] {
+    let tiled: ReturnType<typeof tileCaptures>
+
+    try {
+      tiled = tileCaptures(src, true)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      this.report(path, `Pattern can't be translated: ${message}`)
+      return []
+    }
+
+    const count = tokenize(src).filter(token => token.capture).length
+    if (count !== actions.length) {
+      this.report(
+        path,
+        `The pattern has ${count} groups, but there are ${actions.length} actions`
+      )
+    }
+
+    const rule: DF.Pattern = { emit: false, match: `/${tiled.source}/` }
+    let nest: string | undefined
+
+    actions.forEach((action, group) => {
+      const actionPath = joinPath(path, group)
+
+      if (Array.isArray(action)) {
+        this.report(actionPath, "Nested group actions aren't supported")
+        return
+      }
+
+      const obj: MonarchActionObject =
+        typeof action === "string" ? { token: action } : action
+
+      this.unsupported(obj, actionPath)
+
+      if (obj.next !== undefined) next = obj.next
+      if (obj.nextEmbedded !== undefined) nest = obj.nextEmbedded
+
+      const capture = obj.cases
+        ? this.groupCases(obj.cases, joinPath(actionPath, "cases"))
+        : this.capture(this.node(obj, actionPath))
+
+      if (!capture) return
+
+      const idx = tiled.indexes.get(group + 1)
+      if (idx === undefined) {
+        this.report(
+          actionPath,
+          `Group ${
+            group + 1
+          } can't be kept, because it can't be split from the rest of the pattern`
+        )
+        return
+      }
+
+      rule.captures ??= {}
+      rule.captures[idx] = capture
+    })
+
+    return [this.enter(base, rule, next, nest, path, state)]
+  }
+
+  /**
+   * Converts the cases of an action for a group into a capture condition.
+   * Only a single guard, along with a default, can be kept.
+   *
+   * @param cases - The Monarch cases.
+   * @param path - The path to the cases.
+   */
+  private groupCases(
+    cases: Record<string, MonarchAction>,
+    path: string
+  ): DF.Node | DF.CaptureCondition | null {
+    let condition: DF.CaptureCondition | undefined
+    let fallback: DF.Node | undefined
+
+    for (const key in cases) {
+      const casePath = joinPath(path, key)
+      const value = cases[key]
+
+      if (typeof value !== "string" && (Array.isArray(value) || value.cases)) {
+        this.report(casePath, "Nested cases aren't supported")
+        continue
+      }
+
+      const obj: MonarchActionObject =
+        typeof value === "string" ? { token: value } : value
+
+      this.unsupported(obj, casePath)
+
+      if (obj.next !== undefined) {
+        this.report(
+          joinPath(casePath, "next"),
+          "The cases of a group can't change the state, so this is ignored"
+        )
+      }
+
+      const guard = this.guard(key, casePath)
+      if (!guard) continue
+
+      const node = this.capture(this.node(obj, casePath)) ?? { emit: false }
+
+      if (guard.kind === "default") {
+        fallback = node
+        break
+      }
+
+      if (guard.kind === "eos") {
+        this.report(casePath, "@eos can't be used for a group")
+        continue
+      }
+
+      if (condition) {
+        this.report(casePath, "Only one case besides @default can be kept for a group")
+        continue
+      }
+
+      condition = { matches: `/${guard.source}/${this.flags}u`, then: node }
+    }
+
+    if (!condition) return fallback ?? null
+
+    // without an else, a failed condition would make the entire rule fail
+    condition.else = fallback ?? { emit: false }
+
+    return condition
+  }
+
+  /**
+   * Reports any properties of an action that aren't supported.
+   *
+   * @param action - The Monarch action.
+   * @param path - The path to the action.
+   */
+  private unsupported(action: MonarchActionObject, path: string) {
+    if (action.switchTo !== undefined) {
+      this.report(joinPath(path, "switchTo"), "switchTo isn't supported")
+    }
+    if (action.goBack !== undefined) {
+      this.report(joinPath(path, "goBack"), "goBack isn't supported")
+    }
+  }
+
+  /**
+   * Returns the node properties for an action.
+   *
+   * @param action - The Monarch action.
+   * @param path - The path to the action.
+   */
+  private node(action: MonarchActionObject, path: string): DF.RuleOptions {
+    let token = action.token ?? ""
+
+    if (token.includes("$")) {
+      this.report(path, "Substitutions in tokens aren't supported, so they're left out")
+      token = token
+        .split(".")
+        .filter(segment => !segment.includes("$"))
+        .join(".")
+    }
+
+    if (token === "@rematch") return { emit: false, rematch: true }
+
+    if (!token) return { emit: false }
+
+    const name = scopeToType(token) || "Token"
+    const tag = scopeToTag(token)
+
+    const node: DF.RuleOptions = { emit: name }
+
+    if (action.bracket === "@open") {
+      node.emit = `${name}Open`
+      node.closedBy = `${name}Close`
+    } else if (action.bracket === "@close") {
+      node.emit = `${name}Close`
+      node.openedBy = `${name}Open`
+    }
+
+    if (tag) node.tag = tag
+
+    return node
+  }
+
+  /**
+   * Returns a node usable for a capture, which unlike a rule needs a type.
+   * Types are shared by nodes that are the same. Returns null if the node
+   * isn't emitted.
+   *
+   * @param node - The node properties, as returned by {@link Converter.node}.
+   */
+  private capture(node: DF.RuleOptions): DF.Node | null {
+    if (typeof node.emit !== "string") return null
+    const key = JSON.stringify(node)
+    let type = this.captureTypes.get(key)
+    if (!type) {
+      type = this.unique(node.emit)
+      this.captureTypes.set(key, type)
+    }
+    return { type, ...node }
+  }
+
+  /**
+   * Splits a rule using the `@brackets` token into a rule for each bracket
+   * the pattern can match, returning the pattern and node for each.
+   *
+   * @param src - The translated pattern of the rule.
+   * @param path - The path to the action.
+   */
+  private brackets(src: string, path: string): [string, DF.RuleOptions][] {
+    const brackets = Array.isArray(this.lang.brackets) ? this.lang.brackets : []
+    const whole = this.whole(src)
+    const parts: [string, DF.RuleOptions][] = []
+
+    for (const bracket of brackets) {
+      const [open, close, token] = Array.isArray(bracket)
+        ? bracket
+        : [bracket.open, bracket.close, bracket.token]
+
+      const name = scopeToType(token) || "Bracket"
+      const tag = scopeToTag(token)
+
+      if (whole.test(open)) {
+        const node: DF.RuleOptions = { emit: `${name}Open`, closedBy: `${name}Close` }
+        if (tag) node.tag = tag
+        parts.push([escapeRegExp(open), node])
+      }
+
+      if (whole.test(close)) {
+        const node: DF.RuleOptions = { emit: `${name}Close`, openedBy: `${name}Open` }
+        if (tag) node.tag = tag
+        parts.push([escapeRegExp(close), node])
+      }
+    }
+
+    if (!parts.length) {
+      this.report(path, "None of the brackets can be matched by this rule")
+    }
+
+    return parts
+  }
+
+  /**
+   * Parses the guard of a case. Returns null if the guard isn't supported.
+   *
+   * @param key - The guard, e.g. `@keywords`, `~[a-z]+`, or `@default`.
+   * @param path - The path to the case.
+   */
+  private guard(key: string, path: string): Guard | null {
+    if (key === "@default" || key === "@") return { kind: "default" }
+    if (key === "@eos") return { kind: "eos" }
+
+    let rest = key
+
+    const pattern = /^\$(?:#|[sS]?\d\d?)/.exec(rest)
+    if (pattern) {
+      if (pattern[0] !== "$#" && pattern[0] !== "$0") {
+        this.report(path, "Cases can only test the entire match")
+        return null
+      }
+      rest = rest.slice(pattern[0].length)
+    }
+
+    let op = /^(?:!?@|!?~|==|!=)/.exec(rest)?.[0]
+    if (op) rest = rest.slice(op.length)
+    else op = /^\w*$/.test(rest) ? "==" : "~"
+
+    const negate = op.startsWith("!")
+
+    let source: string
+    let words: string[] | undefined
+
+    if (op.endsWith("@")) {
+      const list = this.lang[rest]
+      if (!Array.isArray(list) || !list.every(word => typeof word === "string")) {
+        this.report(path, `Attribute "${rest}" not found, or isn't a list of strings`)
+        return null
+      }
+      source = list.map(escapeRegExp).join("|")
+      if (!negate) words = list
+    } else if (op.endsWith("~")) {
+      const translated = this.pattern(rest, path)
+      if (translated === null) return null
+      // conditions aren't given variables, so they have to be replaced here
+      source = this.expand(translated)
+    } else {
+      source = escapeRegExp(rest)
+    }
+
+    source = negate ? `^(?!(?:${source})$)` : `^(?:${source})$`
+
+    return { kind: "test", source, words }
+  }
+
+  /**
+   * Turns a pattern and node into a rule, which only matches if the guard
+   * of its case does. Returns null if that's not possible.
+   *
+   * @param src - The translated pattern.
+   * @param node - The node properties of the rule.
+   * @param guard - The guard of the case the rule is for, if any.
+   * @param path - The path to the action.
+   */
+  private guarded(
+    src: string,
+    node: DF.RuleOptions,
+    guard: Guard | undefined,
+    path: string
+  ): DF.Rule | null {
+    if (!guard || guard.kind === "default") return { ...node, match: `/${src}/` }
+
+    if (guard.kind === "eos") return { ...node, match: `/${src}/`, lookahead: "/$/" }
+
+    if (guard.words) {
+      const lookup = this.lookup(src, guard.words)
+      if (lookup) return { ...node, ...lookup }
+    }
+
+    // the condition needs the entire match as a single capture
+    let tiled: string
+
+    try {
+      tiled = tileCaptures(src, false).source
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      this.report(path, `Pattern can't be translated: ${message}`)
+      return null
+    }
+
+    return {
+      ...node,
+      match: `/(${tiled})/`,
+      captures: { 0: { matches: `/${guard.source}/${this.flags}u` } }
+    }
+  }
+
+  /**
+   * Returns the properties for a lookup rule equivalent to testing if what
+   * a pattern matches is in a list of words. This is only possible for
+   * patterns shaped like identifiers, e.g. `[a-z_]\w*`, as the lookahead
+   * then ensures that the word isn't followed by more of the identifier.
+   * Returns null if the pattern isn't shaped like this.
+   *
+   * @param src - The translated pattern.
+   * @param words - The list of words.
+   */
+  private lookup(src: string, words: string[]) {
+    const tokens = tokenize(src)
+
+    let follow: string | undefined
+
+    if (tokens.length === 2 && tokens[0].kind === "atom" && tokens[1].text === "+") {
+      follow = tokens[0].text
+    } else if (
+      tokens.length === 3 &&
+      tokens[0].kind === "atom" &&
+      tokens[1].kind === "atom" &&
+      tokens[2].text === "*"
+    ) {
+      follow = tokens[1].text
+    }
+
+    if (!follow || follow.startsWith("@")) return null
+
+    // lookups refer to variables with @, so words using it can't be kept
+    if (words.some(word => word.includes("@"))) return null
+
+    const whole = this.whole(src)
+    const lookup = words.filter(word => whole.test(word))
+
+    if (!lookup.length) return null
+
+    return { lookup, lookahead: `/(?!${follow})/` as DF.Regex }
+  }
+
+  /**
+   * Adds a converted rule to the repository, turning it into a state if it
+   * enters a tokenizer state. Rules that leave their state aren't added.
+   *
+   * @param base - The name to base the name of the rule on.
+   * @param rule - The converted rule.
+   * @param next - The state the rule goes to, if any.
+   * @param nest - The language to nest inside of the entered state, if any.
+   * @param path - The path to the action.
+   * @param state - The name of the tokenizer state the rule is in.
+   */
+  private enter(
+    base: string,
+    rule: DF.Rule,
+    next: string | undefined,
+    nest: string | undefined,
+    path: string,
+    state: string
+  ): Converted {
+    const name = this.unique(base)
+
+    if (nest === "@pop") nest = undefined
+
+    if (!next) {
+      if (nest) {
+        this.report(path, "Languages can only be nested in a state that is entered")
+      }
+      this.repository[name] = rule
+      return { name }
+    }
+
+    if (next === "@pop" || next === "@popall") {
+      if (next === "@popall") {
+        this.report(path, "@popall only leaves the current state, like @pop")
+      }
+      return { name, pop: rule }
+    }
+
+    let target: string | null = null
+
+    if (next.includes("$")) {
+      this.report(path, "Substitutions in state names aren't supported")
+    } else if (next === "@push") {
+      target = state
+    } else {
+      target = this.target(next.replace(/^@/, ""), path)
+    }
+
+    if (!target) {
+      this.repository[name] = rule
+      return { name }
+    }
+
+    // the begin rule is inlined, so it needs its own type to be emitted
+    const def: DF.State = {
+      emit: false,
+      begin: { type: this.unique(`${name}_begin`), ...rule },
+      end: ""
+    }
+
+    if (nest) def.nest = nest
+    else {
+      def.inside = [{ include: this.includes.get(target)! }]
+      this.used.add(target)
+    }
+
+    this.pending.push([def, target])
+    this.repository[name] = def
+
+    return { name }
+  }
+
+  /**
+   * Returns the name of the `end` rule for a state that enters a tokenizer
+   * state. This is the rule in the state that leaves it, or if there are
+   * multiple, a rule merging them.
+   *
+   * @param target - The name of the tokenizer state.
+   */
+  private end(target: string) {
+    let name = this.ends.get(target)
+    if (name) return name
+
+    const pops = new Map<string, DF.Rule>()
+    for (const { name, pop } of this.flatten(target, new Set())) {
+      if (pop) pops.set(name, pop)
+    }
+
+    const path = joinPath("tokenizer", target)
+    const rules = [...pops.values()]
+
+    if (!rules.length) {
+      // never leaves the state
+      name = this.unique(sanitize(`${target}_end`))
+      this.repository[name] = { emit: false, match: "/(?!)/" }
+    } else if (rules.length === 1) {
+      name = [...pops.keys()][0]
+      this.repository[name] = rules[0]
+    } else if (
+      rules.every(
+        rule => "match" in rule && !rule.captures && !rule.lookahead && !rule.rematch
+      )
+    ) {
+      const [{ match, ...node }, ...others] = rules as DF.Pattern[]
+
+      if (
+        others.some(
+          ({ match, ...other }) => JSON.stringify(other) !== JSON.stringify(node)
+        )
+      ) {
+        this.report(
+          path,
+          "The rules leaving this state are merged into one end rule, so only the token of the first is kept"
+        )
+      }
+
+      name = this.unique(sanitize(`${target}_end`))
+      this.repository[name] = {
+        ...node,
+        match: rules.flatMap(rule => [(rule as DF.Pattern).match].flat())
+      }
+    } else {
+      this.report(
+        path,
+        "Only the first rule leaving this state can be kept, as states have only one end rule"
+      )
+      name = [...pops.keys()][0]
+      this.repository[name] = rules[0]
+    }
+
+    this.ends.set(target, name)
+
+    return name
+  }
+
+  /**
+   * Returns the converted rules of a tokenizer state, including the rules
+   * of any states it includes.
+   *
+   * @param state - The name of the tokenizer state.
+   * @param seen - The states already flattened, to avoid cycles.
+   */
+  private flatten(state: string, seen: Set<string>): Converted[] {
+    if (seen.has(state)) return []
+    seen.add(state)
+    return (this.states.get(state) ?? []).flatMap(entry =>
+      "include" in entry ? this.flatten(entry.include, seen) : [entry]
+    )
+  }
+}
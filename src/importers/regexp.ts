@@ -0,0 +1,403 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+/** Contents of the POSIX bracket expressions supported by Oniguruma, by name. */
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  ascii: "\\x00-\\x7F",
+  blank: " \\t",
+  cntrl: "\\x00-\\x1F\\x7F",
+  digit: "0-9",
+  graph: "\\x21-\\x7E",
+  lower: "a-z",
+  print: "\\x20-\\x7E",
+  punct: "\\x21-\\x2F\\x3A-\\x40\\x5B-\\x60\\x7B-\\x7E",
+  space: "\\s",
+  upper: "A-Z",
+  word: "\\w",
+  xdigit: "0-9a-fA-F"
+}
+
+/** Escapes that Oniguruma supports, but have no equivalent in JavaScript. */
+const UNSUPPORTED_ESCAPES = "KRXNOyYg"
+
+/**
+ * Translates an Oniguruma pattern into the source and flags of an
+ * equivalent `RegExp`. Throws if the pattern uses syntax that can't be
+ * translated, or the result isn't valid. JavaScript patterns are mostly
+ * left as they are, so they can be passed through this as well.
+ *
+ * @param pattern - The pattern to translate.
+ * @param variables - If given, called with the name of every `@name` in
+ *   the pattern. If it returns true, the name is kept as a reference to a
+ *   variable, instead of being escaped.
+ */
+export function translatePattern(pattern: string, variables?: (name: string) => boolean) {
+  let flags = ""
+  let extended = false
+
+  // options for the entire pattern
+  const options = /^\(\?([imx]+)\)/.exec(pattern)
+  if (options) {
+    if (options[1].includes("i")) flags += "i"
+    // oniguruma's multiline option is the same as the dotAll flag
+    if (options[1].includes("m")) flags += "s"
+    if (options[1].includes("x")) extended = true
+    pattern = pattern.slice(options[0].length)
+  }
+
+  let source = ""
+  let quantified = false
+  let i = 0
+
+  while (i < pattern.length) {
+    const ch = pattern[i]
+    const rest = pattern.slice(i)
+
+    // possessive quantifier, which can just be made greedy
+    if (quantified && ch === "+") {
+      quantified = false
+      i++
+      continue
+    }
+
+    quantified = false
+
+    // whitespace and comments in extended mode
+    if (extended && /\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    if (extended && ch === "#") {
+      const end = pattern.indexOf("\n", i)
+      i = end === -1 ? pattern.length : end + 1
+      continue
+    }
+
+    if (ch === "\\") {
+      const [text, length] = translateEscape(pattern, i, false)
+      source += text
+      i += length
+      continue
+    }
+
+    if (ch === "[") {
+      const [text, length] = translateClass(pattern, i)
+      source += text
+      i += length
+      continue
+    }
+
+    if (ch === "(") {
+      // comment group
+      if (rest.startsWith("(?#")) {
+        const end = pattern.indexOf(")", i)
+        if (end === -1) throw new Error("Unterminated comment")
+        i = end + 1
+        continue
+      }
+
+      const group = /^\((?:\?(?:[:=!>]|<[=!]|<\w+>|'\w+'|P<\w+>))?/.exec(rest)!
+
+      if (group[0] === "(" && pattern[i + 1] === "?") {
+        throw new Error(`Unsupported group syntax "${rest.slice(0, 4)}"`)
+      }
+
+      let text = group[0]
+      if (text === "(?>") text = "(?:"
+      else if (text.startsWith("(?'")) text = `(?<${text.slice(3, -1)}>`
+      else if (text.startsWith("(?P<")) text = `(?<${text.slice(4)}`
+
+      source += text
+      i += group[0].length
+      continue
+    }
+
+    const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\}|\{,\d+\})/.exec(rest)
+    if (quantifier) {
+      source += quantifier[0].replace("{,", "{0,")
+      i += quantifier[0].length
+      // lazy quantifier
+      if (pattern[i] === "?") {
+        source += "?"
+        i++
+      } else {
+        quantified = true
+      }
+      continue
+    }
+
+    if (ch === "@" && variables) {
+      const name = /^@(\w+)/.exec(rest)
+      if (name && variables(name[1])) {
+        source += name[0]
+        i += name[0].length
+        continue
+      }
+    }
+
+    if (ch === "{" || ch === "}" || ch === "]") source += `\\${ch}`
+    else if (ch === "@") source += "\\x40"
+    else source += ch
+
+    i++
+  }
+
+  try {
+    new RegExp(source, `${flags}u`)
+  } catch (err) {
+    throw new Error(err instanceof Error ? err.message : String(err))
+  }
+
+  return { source, flags }
+}
+
+/**
+ * Translates an escape sequence in an Oniguruma pattern. Returns the
+ * translated text, and the length of the escape in the pattern.
+ *
+ * @param pattern - The pattern.
+ * @param i - The index of the backslash.
+ * @param inClass - True if the escape is inside of a character class.
+ */
+function translateEscape(pattern: string, i: number, inClass: boolean): [string, number] {
+  const rest = pattern.slice(i + 1)
+  const ch = rest[0]
+
+  if (ch === undefined) throw new Error("Pattern ends with a backslash")
+
+  let match: RegExpExecArray | null
+
+  // code points
+  if ((match = /^x\{([0-9a-fA-F]+)\}/.exec(rest))) {
+    return [`\\u{${match[1]}}`, match[0].length + 1]
+  }
+  if ((match = /^x([0-9a-fA-F]{1,2})/.exec(rest))) {
+    return [`\\x${match[1].padStart(2, "0")}`, match[0].length + 1]
+  }
+  if ((match = /^0[0-7]{0,2}/.exec(rest))) {
+    const hex = parseInt(match[0], 8).toString(16).padStart(2, "0")
+    return [`\\x${hex}`, match[0].length + 1]
+  }
+  if ((match = /^(?:u[0-9a-fA-F]{4}|[pP]\{\w+\})/.exec(rest))) {
+    return [`\\${match[0]}`, match[0].length + 1]
+  }
+
+  // backreferences
+  if ((match = /^(?:[1-9]\d*|k<\w+>)/.exec(rest))) {
+    if (inClass) throw new Error("Backreferences can't be used in character classes")
+    return [`\\${match[0]}`, match[0].length + 1]
+  }
+
+  if ((match = /^c[a-zA-Z]/.exec(rest))) return [`\\${match[0]}`, 3]
+
+  if (ch === "h") return [inClass ? "0-9a-fA-F" : "[0-9a-fA-F]", 2]
+  if (ch === "e") return ["\\x1B", 2]
+  if (ch === "a") return ["\\x07", 2]
+
+  if (!inClass) {
+    if (ch === "H") return ["[^0-9a-fA-F]", 2]
+    if (ch === "A") return ["^", 2]
+    if (ch === "z" || ch === "Z") return ["$", 2]
+    // patterns are always matched at the current position, so this does nothing
+    if (ch === "G") return ["", 2]
+  }
+
+  if ("dDwWsSbBnrtfv".includes(ch)) return [`\\${ch}`, 2]
+
+  if (UNSUPPORTED_ESCAPES.includes(ch)) throw new Error(`"\\${ch}" isn't supported`)
+
+  if (/[a-zA-Z0-9]/.test(ch)) throw new Error(`Unknown escape "\\${ch}"`)
+
+  // escaped literal character
+  if (ch === "@") return ["\\x40", 2]
+  const special = inClass ? "\\]^-[" : "^$\\.*+?()[]{}|/"
+  return [special.includes(ch) ? `\\${ch}` : ch, 2]
+}
+
+/**
+ * Translates a character class in an Oniguruma pattern. Returns the
+ * translated class, and the length of the class in the pattern.
+ *
+ * @param pattern - The pattern.
+ * @param i - The index of the opening bracket.
+ */
+function translateClass(pattern: string, i: number): [string, number] {
+  let source = "["
+  let j = i + 1
+
+  if (pattern[j] === "^") {
+    source += "^"
+    j++
+  }
+
+  for (let first = true; j < pattern.length; first = false) {
+    const ch = pattern[j]
+
+    if (ch === "]") {
+      // a bracket at the start of a class is a literal
+      if (first) {
+        source += "\\]"
+        j++
+        continue
+      }
+      return [`${source}]`, j + 1 - i]
+    }
+
+    if (ch === "\\") {
+      const [text, length] = translateEscape(pattern, j, true)
+      source += text
+      j += length
+      continue
+    }
+
+    if (ch === "[") {
+      const posix = /^\[:(\^?)(\w+):\]/.exec(pattern.slice(j))
+      if (!posix || posix[1] || !POSIX_CLASSES[posix[2]]) {
+        throw new Error("Nested character classes aren't supported")
+      }
+      source += POSIX_CLASSES[posix[2]]
+      j += posix[0].length
+      continue
+    }
+
+    if (ch === "&" && pattern[j + 1] === "&") {
+      throw new Error("Character class intersections aren't supported")
+    }
+
+    source += ch === "@" ? "\\x40" : ch
+    j++
+  }
+
+  throw new Error("Unterminated character class")
+}
+
+/** A piece of a `RegExp` source, as split by {@link tokenize}. */
+export interface Token {
+  /** The kind of piece. */
+  kind: "atom" | "open" | "close" | "alt" | "quantifier"
+  /** The source text of the piece. */
+  text: string
+  /** True if the piece opens a capturing group. */
+  capture?: boolean
+}
+
+/**
+ * Splits a `RegExp` source into escapes, classes, group brackets,
+ * alternations, quantifiers, and single characters.
+ *
+ * @param source - The source to split.
+ */
+export function tokenize(source: string) {
+  const regex =
+    /(\\(?:[pP]\{[^}]*\}|k<[^>]*>|u\{[^}]*\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|\d+|[^]))|(\[(?:\\[^]|[^\]\\])*\])|(\((?:\?(?:[:=!]|<[=!]|<\w+>))?)|(\))|(\|)|((?:[*+?]|\{\d+(?:,\d*)?\})\??)|([^])/gu
+
+  const tokens: Token[] = []
+
+  for (const [text, escape, cls, open, close, alt, quantifier] of source.matchAll(
+    regex
+  )) {
+    if (escape || cls) tokens.push({ kind: "atom", text })
+    else if (open) {
+      const capture = open === "(" || /^\(\?<\w/.test(open)
+      tokens.push({ kind: "open", text, capture })
+    } else if (close) tokens.push({ kind: "close", text })
+    else if (alt) tokens.push({ kind: "alt", text })
+    else if (quantifier) tokens.push({ kind: "quantifier", text })
+    else tokens.push({ kind: "atom", text })
+  }
+
+  return tokens
+}
+
+/**
+ * Rewrites a `RegExp` source so that its capturing groups cover the entire
+ * match, one after another, which is what patterns with captures need. Top
+ * level groups are kept, with everything between them put into new groups,
+ * and any other groups are made non-capturing. If no captures are wanted,
+ * every group is made non-capturing instead.
+ *
+ * Returns the new source, and a map of the original group numbers to the
+ * indexes of the groups that were kept.
+ *
+ * @param source - The source to rewrite.
+ * @param keep - True if any captures are wanted.
+ */
+export function tileCaptures(source: string, keep: boolean) {
+  const tokens = tokenize(source)
+  const indexes = new Map<number, number>()
+
+  if (!tokens.some(token => token.capture)) return { source, indexes }
+
+  // split into top level pieces, noting which are capturing groups
+  const pieces: { tokens: Token[]; group: number | null }[] = []
+  let alternation = false
+  let nested = false
+  let groups = 0
+  let depth = 0
+
+  for (const token of tokens) {
+    if (depth === 0) {
+      if (token.kind === "alt") alternation = true
+      if (token.kind !== "quantifier") {
+        pieces.push({ tokens: [], group: token.capture ? groups + 1 : null })
+      } else if (token.text !== "?" && token.text !== "??") {
+        // a repeated group only captures its last repetition
+        pieces[pieces.length - 1].group = null
+      }
+    } else if (token.capture) {
+      nested = true
+    }
+
+    if (token.capture) groups++
+    if (token.kind === "open") depth++
+    if (token.kind === "close") depth--
+
+    pieces[pieces.length - 1].tokens.push(token)
+  }
+
+  // already covers the entire match
+  if (!alternation && !nested && pieces.every(piece => piece.group !== null)) {
+    for (let group = 1; group <= groups; group++) indexes.set(group, group - 1)
+    return { source, indexes }
+  }
+
+  if (tokens.some(token => /^\\(?:[1-9]|k<)/.test(token.text))) {
+    throw new Error(
+      "Backreferences can't be kept, because the groups have to be rewritten"
+    )
+  }
+
+  const strip = (tokens: Token[]) =>
+    tokens.map(token => (token.capture ? "(?:" : token.text)).join("")
+
+  if (!keep || alternation) return { source: strip(tokens), indexes }
+
+  let result = ""
+  let between = ""
+  let idx = 0
+
+  const flush = () => {
+    if (!between) return
+    result += `(${between})`
+    between = ""
+    idx++
+  }
+
+  for (const piece of pieces) {
+    if (piece.group === null) {
+      between += strip(piece.tokens)
+    } else {
+      flush()
+      indexes.set(piece.group, idx++)
+      result += piece.tokens[0].text + strip(piece.tokens.slice(1))
+    }
+  }
+
+  flush()
+
+  return { source: result, indexes }
+}
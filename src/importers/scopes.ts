@@ -0,0 +1,170 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type * as DF from "../grammar/definition"
+
+/**
+ * Map of scope prefixes to highlighting tags. Covers the conventional
+ * TextMate scope names, and the token classes used by Monaco.
+ */
+const SCOPE_TAGS: Record<string, DF.Tag> = {
+  "comment": "comment",
+  "comment.line": "lineComment",
+  "comment.block": "blockComment",
+  "comment.block.documentation": "docComment",
+  "comment.doc": "docComment",
+
+  "constant": "constant(variableName)",
+  "constant.numeric": "number",
+  "constant.numeric.integer": "integer",
+  "constant.numeric.float": "float",
+  "constant.character": "character",
+  "constant.character.escape": "escape",
+  "constant.language": "atom",
+  "constant.language.boolean": "bool",
+  "constant.language.null": "null",
+  "constant.other.color": "color",
+
+  "entity.name": "name",
+  "entity.name.function": "function(variableName)",
+  "entity.name.type": "typeName",
+  "entity.name.class": "className",
+  "entity.name.tag": "tagName",
+  "entity.name.namespace": "namespace",
+  "entity.name.label": "labelName",
+  "entity.name.section": "heading",
+  "entity.other.attribute-name": "attributeName",
+  "entity.other.inherited-class": "className",
+
+  "invalid": "invalid",
+
+  "keyword": "keyword",
+  "keyword.control": "controlKeyword",
+  "keyword.control.import": "moduleKeyword",
+  "keyword.operator": "operator",
+  "keyword.operator.arithmetic": "arithmeticOperator",
+  "keyword.operator.logical": "logicOperator",
+  "keyword.operator.bitwise": "bitwiseOperator",
+  "keyword.operator.comparison": "compareOperator",
+  "keyword.operator.assignment": "definitionOperator",
+  "keyword.other.unit": "unit",
+
+  "markup.heading": "heading",
+  "markup.bold": "strong",
+  "markup.italic": "emphasis",
+  "markup.strikethrough": "strikethrough",
+  "markup.underline.link": "link",
+  "markup.quote": "quote",
+  "markup.list": "list",
+  "markup.raw": "monospace",
+  "markup.inline.raw": "monospace",
+  "markup.inserted": "inserted",
+  "markup.deleted": "deleted",
+  "markup.changed": "changed",
+
+  "meta.annotation": "annotation",
+  "meta.preprocessor": "processingInstruction",
+
+  "punctuation": "punctuation",
+  "punctuation.separator": "separator",
+  "punctuation.definition.tag": "angleBracket",
+  "punctuation.section.brackets": "squareBracket",
+  "punctuation.section.parens": "paren",
+  "punctuation.section.braces": "brace",
+  "punctuation.section.block": "brace",
+
+  "storage": "keyword",
+  "storage.type": "definitionKeyword",
+  "storage.modifier": "modifier",
+
+  "string": "string",
+  "string.regexp": "regexp",
+  "string.other.link": "link",
+  "string.quoted.docstring": "docString",
+  "string.unquoted": "content",
+
+  "support.constant": "standard(variableName)",
+  "support.function": "function(standard(variableName))",
+  "support.type": "typeName",
+  "support.class": "className",
+  "support.variable": "standard(variableName)",
+
+  "variable": "variableName",
+  "variable.language": "self",
+  "variable.parameter": "local(variableName)",
+  "variable.other.property": "propertyName",
+  "variable.other.constant": "constant(variableName)",
+
+  // Monaco token classes
+
+  "annotation": "annotation",
+  "attribute.name": "attributeName",
+  "attribute.value": "attributeValue",
+  "delimiter": "punctuation",
+  "delimiter.bracket": "bracket",
+  "delimiter.parenthesis": "paren",
+  "delimiter.square": "squareBracket",
+  "delimiter.curly": "brace",
+  "delimiter.angle": "angleBracket",
+  "identifier": "variableName",
+  "metatag": "meta",
+  "namespace": "namespace",
+  "number": "number",
+  "number.float": "float",
+  "number.hex": "integer",
+  "operator": "operator",
+  "operators": "operator",
+  "predefined": "standard(variableName)",
+  "regexp": "regexp",
+  "string.escape": "escape",
+  "string.invalid": "invalid",
+  "tag": "tagName",
+  "type": "typeName",
+  "type.identifier": "typeName"
+}
+
+/**
+ * Finds the highlighting tag for a TextMate scope, or a Monaco token
+ * class, by the longest known prefix of it. Returns `null` if no tag fits,
+ * e.g. for `meta` scopes, which aren't meant to be highlighted.
+ *
+ * @param scope - The scope to find a tag for, e.g.
+ *   `keyword.control.conditional.js`. If there are multiple scopes,
+ *   separated by spaces, the first with a tag is used.
+ */
+export function scopeToTag(scope: string): DF.Tag | null {
+  for (const name of scope.trim().split(/\s+/)) {
+    const segments = name.split(".")
+    for (let i = segments.length; i > 0; i--) {
+      const prefix = segments.slice(0, i).join(".")
+      if (prefix in SCOPE_TAGS) return SCOPE_TAGS[prefix]
+    }
+  }
+  return null
+}
+
+/**
+ * Converts a scope into a name usable as a node type, e.g.
+ * `string.quoted.double.js` into `StringQuotedDouble`. If a suffix is
+ * given, like `js`, and the scope ends with it, it is removed.
+ *
+ * @param scope - The scope to convert.
+ * @param suffix - The suffix to remove, if present.
+ */
+export function scopeToType(scope: string, suffix?: string) {
+  let segments = scope.trim().split(/\s+/)[0].split(".")
+  if (suffix && segments.length > 1 && segments[segments.length - 1] === suffix) {
+    segments = segments.slice(0, -1)
+  }
+  return segments
+    .flatMap(segment => segment.split(/[^a-zA-Z0-9]+/))
+    .filter(Boolean)
+    .map(segment => segment[0].toUpperCase() + segment.slice(1))
+    .join("")
+}
+
+/** Makes a name from another grammar format usable as a repository name. */
+export function sanitize(name: string) {
+  return name.replace(/[^\w-]/g, "_")
+}
@@ -0,0 +1,564 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
+
+import type * as DF from "../grammar/definition"
+import type { ConvertedGrammar, GrammarDiagnostic } from "../types"
+import { joinPath } from "../util"
+import { tileCaptures, tokenize, translatePattern } from "./regexp"
+import { sanitize, scopeToTag, scopeToType } from "./scopes"
+
+/** A TextMate grammar, as found in `.tmLanguage.json` files. */
+export interface TextMateGrammar {
+  /** The scope of the grammar, e.g. `source.js`. */
+  scopeName: string
+  /** The rules used at the top level of the grammar. */
+  patterns: TextMateRule[]
+  /** Rules that can be included by name, e.g. `#strings`. */
+  repository?: Record<string, TextMateRule>
+  /** Rules injected into other grammars. Not supported. */
+  injections?: Record<string, TextMateRule>
+  /** Metadata, like `name` or `fileTypes`, which is ignored. */
+  [key: string]: unknown
+}
+
+/** A rule in a {@link TextMateGrammar}. */
+export interface TextMateRule {
+  /** Includes another rule, e.g. `#strings`, `$self`, or `source.css`. */
+  include?: string
+  /** The scope given to everything the rule matches. */
+  name?: string
+  /** The scope given to what is between `begin` and `end`. */
+  contentName?: string
+  /** The pattern matched by a single line rule. */
+  match?: string
+  /** The pattern that starts a multiline rule. */
+  begin?: string
+  /** The pattern that ends a multiline rule. */
+  end?: string
+  /** The pattern that continues a multiline rule. Not supported. */
+  while?: string
+  /** Scopes for the groups of `match`, or both `begin` and `end`. */
+  captures?: TextMateCaptures
+  /** Scopes for the groups of `begin`. */
+  beginCaptures?: TextMateCaptures
+  /** Scopes for the groups of `end`. */
+  endCaptures?: TextMateCaptures
+  /** The rules used between `begin` and `end`, or a list of rules to try. */
+  patterns?: TextMateRule[]
+  /** Rules that can be included by name, within this rule. */
+  repository?: Record<string, TextMateRule>
+  /** If set, the rule is ignored. */
+  disabled?: boolean | 0 | 1
+  /** If set, `patterns` are tried before `end`. Not supported. */
+  applyEndPatternLast?: boolean | 0 | 1
+}
+
+/** Scopes for the groups of a pattern, by group number. */
+export type TextMateCaptures = Record<
+  string,
+  { name?: string; patterns?: TextMateRule[] }
+>
+
+/**
+ * Converts a TextMate grammar into a grammar definition. Every TextMate
+ * rule becomes a repository item, with `begin`/`end` rules becoming
+ * states, and scopes becoming nodes, tagged with the closest matching
+ * highlighting tag. Lists of rules that are included by name become
+ * `includes`, with the grammar's own top level rules included as `self`.
+ *
+ * Constructs without an equivalent, like `while` rules, including other
+ * grammars, or Oniguruma-only regex syntax, are skipped and reported.
+ *
+ * @param grammar - The TextMate grammar to convert.
+ */
+export function fromTextMate(grammar: TextMateGrammar): ConvertedGrammar {
+  const converter = new Converter(grammar)
+  return { grammar: converter.convert(), diagnostics: converter.diagnostics }
+}
+
+/** The TextMate repository items visible from a rule, by name. */
+type Scope = Map<string, { name: string; rule: TextMateRule }>
+
+/** Converts a {@link TextMateGrammar}, collecting anything that couldn't be converted. */
+class Converter {
+  /** The list of problems found so far. */
+  diagnostics: GrammarDiagnostic[] = []
+
+  /** The converted repository. */
+  private repository: Record<string, DF.RepositoryItem> = {}
+
+  /** Lists of rules that are included by name, which become `includes`. */
+  private groups = new Map<string, DF.InsideItem[]>()
+
+  /** Every list of rules created, so that broken references can be removed. */
+  private lists: DF.InsideItem[][] = []
+
+  /** Names that are already taken, either by repository items or node types. */
+  private names = new Set<string>()
+
+  /** Node types created for the scopes of captures, by scope. */
+  private captureTypes = new Map<string, string>()
+
+  /** The last segment of the grammar's scope, e.g. `js`, which is left out of types. */
+  private suffix: string
+
+  /** @param tm - The TextMate grammar to convert. */
+  constructor(private tm: TextMateGrammar) {
+    this.suffix = tm.scopeName.split(".").pop()!
+  }
+
+  /**
+   * Records a problem, unless the exact same problem was already recorded.
+   *
+   * @param path - The path to the offending value in the TextMate grammar.
+   * @param message - A description of the problem.
+   */
+  private report(path: string, message: string) {
+    if (this.diagnostics.some(d => d.path === path && d.message === message)) return
+    this.diagnostics.push({ path, message })
+  }
+
+  /** Converts the entire grammar. */
+  convert(): DF.Grammar {
+    const { tm } = this
+
+    this.names.add("self")
+
+    if (tm.injections) this.report("injections", "Injections aren't supported")
+
+    const scopes = tm.repository ? this.declare(tm.repository, "repository", []) : []
+    this.groups.set("self", this.list(tm.patterns ?? [], "patterns", scopes, "root"))
+
+    // remove references to anything that failed to convert
+    for (const list of this.lists) {
+      const kept = list.filter(item => {
+        if (typeof item === "string") return item in this.repository
+        return "include" in item && this.groups.has(item.include)
+      })
+      list.splice(0, list.length, ...kept)
+    }
+
+    // includes can't contain other includes, so they're flattened, meaning
+    // only includes used directly by states or the root need to be kept
+    const used = new Set(["self"])
+    const groups = new Set(this.groups.values())
+    for (const list of this.lists) {
+      if (groups.has(list)) continue
+      for (const item of list) {
+        if (typeof item !== "string" && "include" in item) used.add(item.include)
+      }
+    }
+
+    const includes: Record<string, string[]> = {}
+    for (const name of used) includes[name] = this.flatten(name, new Set(), [])
+
+    return { repository: this.repository, includes, root: [{ include: "self" }] }
+  }
+
+  /**
+   * Returns a unique name, based on the given one.
+   *
+   * @param base - The name to start with.
+   */
+  private unique(base: string) {
+    let name = base
+    for (let i = 2; this.names.has(name); i++) name = `${base}_${i}`
+    this.names.add(name)
+    return name
+  }
+
+  /**
+   * Returns the node properties for a rule with the given scope. Rules
+   * without a scope aren't emitted.
+   *
+   * @param scope - The scope of the rule.
+   */
+  private node(scope?: string): DF.Node {
+    if (!scope) return { emit: false }
+    const type = this.unique(scopeToType(scope, this.suffix) || "Scope")
+    const tag = scopeToTag(scope)
+    return tag ? { type, tag } : { type }
+  }
+
+  /**
+   * Returns the node for a capture, or the content of a state, with the
+   * given scope. Unlike rules, these nodes are shared by scope.
+   *
+   * @param scope - The scope of the capture.
+   */
+  private captureNode(scope: string): DF.Node {
+    let type = this.captureTypes.get(scope)
+    if (!type) {
+      type = this.unique(scopeToType(scope, this.suffix) || "Scope")
+      this.captureTypes.set(scope, type)
+    }
+    const tag = scopeToTag(scope)
+    return tag ? { type, tag } : { type }
+  }
+
+  /**
+   * Adds the items of a TextMate repository, returning the list of scopes
+   * that rules inside of the repository can see.
+   *
+   * @param repository - The TextMate repository.
+   * @param path - The path to the repository.
+   * @param scopes - The scopes visible from where the repository is.
+   * @param prefix - A prefix for the names of the items, for nested repositories.
+   */
+  private declare(
+    repository: Record<string, TextMateRule>,
+    path: string,
+    scopes: Scope[],
+    prefix?: string
+  ): Scope[] {
+    const scope: Scope = new Map()
+
+    for (const key in repository) {
+      const name = this.unique(sanitize(prefix ? `${prefix}_${key}` : key))
+      scope.set(key, { name, rule: repository[key] })
+    }
+
+    const inner = [scope, ...scopes]
+
+    for (const [key, { name, rule }] of scope) {
+      const itemPath = joinPath(path, key)
+
+      if (rule.disabled) continue
+
+      if (!isGroup(rule)) {
+        this.add(name, rule, itemPath, inner)
+        continue
+      }
+
+      const nested = rule.repository
+        ? this.declare(rule.repository, joinPath(itemPath, "repository"), inner, name)
+        : inner
+
+      if (rule.patterns) {
+        this.groups.set(
+          name,
+          this.list(rule.patterns, joinPath(itemPath, "patterns"), nested, name)
+        )
+      } else {
+        const list: DF.InsideItem[] = []
+        if (rule.include !== undefined) {
+          const ref = this.reference(rule.include, joinPath(itemPath, "include"), nested)
+          if (ref) list.push(ref)
+        }
+        this.lists.push(list)
+        this.groups.set(name, list)
+      }
+    }
+
+    return inner
+  }
+
+  /**
+   * Converts a list of TextMate rules, adding each rule to the repository.
+   * Returns the list of names and includes for the rules.
+   *
+   * @param patterns - The list of TextMate rules.
+   * @param path - The path to the list.
+   * @param scopes - The scopes visible from the list.
+   * @param prefix - A prefix for the names of the rules.
+   */
+  private list(
+    patterns: TextMateRule[],
+    path: string,
+    scopes: Scope[],
+    prefix: string
+  ): DF.InsideItem[] {
+    const list: DF.InsideItem[] = []
+
+    patterns.forEach((rule, idx) => {
+      const rulePath = joinPath(path, idx)
+
+      if (rule.disabled) return
+
+      if (rule.include !== undefined) {
+        const ref = this.reference(rule.include, joinPath(rulePath, "include"), scopes)
+        if (ref) list.push(ref)
+      }
+      // a list of rules nested in a list, which is the same as if it were flat
+      else if (isGroup(rule)) {
+        const nested = rule.repository
+          ? this.declare(
+              rule.repository,
+              joinPath(rulePath, "repository"),
+              scopes,
+              prefix
+            )
+          : scopes
+        list.push(
+          ...this.list(
+            rule.patterns ?? [],
+            joinPath(rulePath, "patterns"),
+            nested,
+            prefix
+          )
+        )
+      } else {
+        const name = this.unique(sanitize(`${prefix}_${idx}`))
+        if (this.add(name, rule, rulePath, scopes)) list.push(name)
+      }
+    })
+
+    this.lists.push(list)
+
+    return list
+  }
+
+  /**
+   * Converts an `include` into a reference to a repository item, or to an
+   * include. Returns null if the reference can't be converted.
+   *
+   * @param include - The TextMate include, e.g. `#strings`.
+   * @param path - The path to the include.
+   * @param scopes - The scopes visible from the include.
+   */
+  private reference(
+    include: string,
+    path: string,
+    scopes: Scope[]
+  ): DF.InsideItem | null {
+    const { scopeName } = this.tm
+
+    if (include === "$self" || include === "$base" || include === scopeName) {
+      return { include: "self" }
+    }
+
+    let key: string
+    if (include.startsWith("#")) {
+      key = include.slice(1)
+    } else if (include.startsWith(`${scopeName}#`)) {
+      key = include.slice(scopeName.length + 1)
+    } else {
+      this.report(path, `Including other grammars isn't supported ("${include}")`)
+      return null
+    }
+
+    for (const scope of scopes) {
+      const entry = scope.get(key)
+      if (!entry) continue
+      if (entry.rule.disabled) return null
+      return isGroup(entry.rule) ? { include: entry.name } : entry.name
+    }
+
+    this.report(path, `Repository item "${key}" not found`)
+    return null
+  }
+
+  /**
+   * Converts a TextMate rule and adds it to the repository. Returns false
+   * if the rule couldn't be converted.
+   *
+   * @param name - The name to add the rule under.
+   * @param rule - The TextMate rule.
+   * @param path - The path to the rule.
+   * @param scopes - The scopes visible from the rule.
+   */
+  private add(name: string, rule: TextMateRule, path: string, scopes: Scope[]) {
+    if (rule.repository) {
+      scopes = this.declare(rule.repository, joinPath(path, "repository"), scopes, name)
+    }
+
+    const item =
+      rule.begin !== undefined
+        ? this.state(rule, path, scopes, name)
+        : this.match(rule.match!, rule.name, rule.captures, path, "match", "captures")
+
+    if (!item) return false
+
+    this.repository[name] = item
+
+    return true
+  }
+
+  /**
+   * Converts a `begin`/`end` rule into a state.
+   *
+   * @param rule - The TextMate rule.
+   * @param path - The path to the rule.
+   * @param scopes - The scopes visible from the rule.
+   * @param name - The name of the state, used as a prefix for its rules.
+   */
+  private state(
+    rule: TextMateRule,
+    path: string,
+    scopes: Scope[],
+    name: string
+  ): DF.State | null {
+    if (rule.while !== undefined) {
+      this.report(joinPath(path, "while"), "Rules using while aren't supported")
+      return null
+    }
+
+    if (rule.end === undefined) {
+      this.report(path, "Rules with a begin pattern need an end pattern")
+      return null
+    }
+
+    if (/(?:^|[^\\])(?:\\\\)*\\(?:[1-9]|k<)/.test(rule.end)) {
+      this.report(
+        joinPath(path, "end"),
+        "End patterns that refer to captures of the begin pattern aren't supported"
+      )
+      return null
+    }
+
+    if (rule.applyEndPatternLast) {
+      this.report(
+        joinPath(path, "applyEndPatternLast"),
+        "The end pattern is always tried first, so this is ignored"
+      )
+    }
+
+    const beginKey = rule.beginCaptures ? "beginCaptures" : "captures"
+    const endKey = rule.endCaptures ? "endCaptures" : "captures"
+
+    const begin = this.match(
+      rule.begin!,
+      undefined,
+      rule.beginCaptures ?? rule.captures,
+      path,
+      "begin",
+      beginKey
+    )
+
+    const end = this.match(
+      rule.end,
+      undefined,
+      rule.endCaptures ?? rule.captures,
+      path,
+      "end",
+      endKey
+    )
+
+    if (!begin || !end) return null
+
+    let inside: DF.State["inside"] = []
+
+    if (rule.patterns?.length) {
+      inside = this.list(rule.patterns, joinPath(path, "patterns"), scopes, name)
+      if (rule.contentName) {
+        this.report(
+          joinPath(path, "contentName"),
+          "A content scope can only be kept for rules without patterns"
+        )
+      }
+    } else if (rule.contentName) {
+      inside = this.captureNode(rule.contentName)
+    }
+
+    return { ...this.node(rule.name), begin, end, inside }
+  }
+
+  /**
+   * Converts a pattern, along with its captures, into a pattern rule.
+   * Returns null if the pattern couldn't be converted.
+   *
+   * @param src - The Oniguruma pattern.
+   * @param scope - The scope of the rule, if it has one.
+   * @param captures - The TextMate captures for the pattern.
+   * @param path - The path to the rule.
+   * @param key - The key of the pattern in the rule, e.g. `match`.
+   * @param capturesKey - The key of the captures in the rule.
+   */
+  private match(
+    src: string,
+    scope: string | undefined,
+    captures: TextMateCaptures | undefined,
+    path: string,
+    key: string,
+    capturesKey: string
+  ): DF.Pattern | null {
+    const capturesPath = joinPath(path, capturesKey)
+
+    const groups: [group: number, scope: string][] = []
+
+    for (const group in captures) {
+      const capture = captures[group]
+      if (capture.patterns) {
+        this.report(
+          joinPath(capturesPath, group, "patterns"),
+          "Patterns inside of captures aren't supported"
+        )
+      }
+      if (!capture.name) continue
+      if (group === "0") {
+        // the entire match, which is the same as the rule's own scope
+        if (!scope) scope = capture.name
+        else {
+          this.report(
+            joinPath(capturesPath, group),
+            "Capture 0 can't be kept, because the rule already has a scope"
+          )
+        }
+      } else {
+        groups.push([parseInt(group, 10), capture.name])
+      }
+    }
+
+    let translated: ReturnType<typeof translatePattern>
+    let source: string
+
+    try {
+      translated = translatePattern(src)
+      // captures can nest, so groups are only rewritten if none are wanted,
+      // as patterns without capturing groups are faster to match
+      source = groups.length
+        ? translated.source
+        : tileCaptures(translated.source, false).source
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      this.report(joinPath(path, key), `Pattern can't be translated: ${message}`)
+      return null
+    }
+
+    const match: DF.Regex = `/${source}/${translated.flags}`
+    const rule: DF.Pattern = { ...this.node(scope), match }
+
+    const count = tokenize(source).filter(token => token.capture).length
+
+    for (const [group, name] of groups) {
+      if (group > count) {
+        this.report(
+          joinPath(capturesPath, group),
+          `Capture ${group} can't be kept, because the pattern has no group ${group}`
+        )
+        continue
+      }
+      rule.captures ??= {}
+      rule.captures[group - 1] = this.captureNode(name)
+    }
+
+    return rule
+  }
+
+  /**
+   * Returns the names of every repository item in an include, including
+   * any includes inside of it, without duplicates.
+   *
+   * @param name - The name of the include.
+   * @param seen - The includes already flattened, to avoid cycles.
+   * @param names - The list to add names to.
+   */
+  private flatten(name: string, seen: Set<string>, names: string[]) {
+    if (seen.has(name)) return names
+    seen.add(name)
+    for (const item of this.groups.get(name) ?? []) {
+      if (typeof item !== "string") {
+        if ("include" in item) this.flatten(item.include, seen, names)
+      } else if (!names.includes(item)) {
+        names.push(item)
+      }
+    }
+    return names
+  }
+}
+
+/** Returns true if a TextMate rule is only a list of other rules, or an include. */
+function isGroup(rule: TextMateRule) {
+  return rule.match === undefined && rule.begin === undefined
+}
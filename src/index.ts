@@ -3,5 +3,28 @@
  * file, You can obtain one at https://mozilla.org/MPL/2.0/. */
 
 export type { TarnationCompletionContext } from "./completion/context"
+export { GrammarCompileError, GrammarCompileErrors } from "./grammar/error"
+export { resolveGrammar } from "./grammar/extend"
+export { grammarGraph, graphToDot } from "./grammar/graph"
+export type { GrammarGraph, GrammarGraphEdge, GrammarGraphNode } from "./grammar/graph"
+export { lintGrammar } from "./grammar/lint"
+export { compileGrammar, loadGrammar } from "./grammar/snapshot"
+export type { GrammarSnapshot } from "./grammar/snapshot"
+export { generateGrammarTypes } from "./grammar/typegen"
+export { validateGrammar } from "./grammar/validate"
+export { fromMonarch } from "./importers/monarch"
+export type {
+  MonarchAction,
+  MonarchActionObject,
+  MonarchBracket,
+  MonarchLanguage,
+  MonarchRule
+} from "./importers/monarch"
+export { fromTextMate } from "./importers/textmate"
+export type {
+  TextMateCaptures,
+  TextMateGrammar,
+  TextMateRule
+} from "./importers/textmate"
 export * from "./language"
 export * from "./types"
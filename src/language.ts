@@ -4,20 +4,30 @@
 
 import {
   defineLanguageFacet,
+  language,
   Language,
   languageDataProp,
   LanguageDescription,
   LanguageSupport
 } from "@codemirror/language"
 import type { Extension, Facet } from "@codemirror/state"
+import { Prec, StateEffect, StateField } from "@codemirror/state"
+import type { EditorView } from "@codemirror/view"
+import { ViewPlugin } from "@codemirror/view"
 import { NodeProp, NodeSet, NodeType } from "@lezer/common"
 import type { ChunkBuffer } from "./compiler/buffer"
 import { Autocompleter } from "./completion/autcomplete"
 import { NodeID, NODE_ERROR_ADVANCE, NODE_ERROR_INCOMPLETE } from "./constants"
 import type * as DF from "./grammar/definition"
 import { Grammar } from "./grammar/grammar"
+import type { GrammarSnapshot } from "./grammar/snapshot"
+import { isGrammarSnapshot, loadGrammar } from "./grammar/snapshot"
 import { ParserFactory } from "./parser"
-import type { ParserConfiguration, TarnationLanguageDefinition } from "./types"
+import type {
+  ParseMargins,
+  ParserConfiguration,
+  TarnationLanguageDefinition
+} from "./types"
 import { removeUndefined } from "./util"
 
 /**
@@ -29,8 +39,8 @@ export class TarnationLanguage {
   /** CodeMirror language data. */
   declare languageData: Record<string, any>
 
-  /** The grammar definition (or a function that returns one). */
-  declare grammarData: DF.Grammar | (() => DF.Grammar)
+  /** The grammar definition or snapshot (or a function that returns one). */
+  declare grammarData: DF.Grammar | GrammarSnapshot | (() => DF.Grammar | GrammarSnapshot)
 
   /** Extra configuration for the parser. */
   declare configure: ParserConfiguration
@@ -82,6 +92,13 @@ export class TarnationLanguage {
    */
   declare autocompleter?: Autocompleter
 
+  /**
+   * The margins of text given to the grammar around each parse position.
+   * Derived from the grammar, unless overridden by the configuration.
+   * Requires the language to have been loaded.
+   */
+  declare margins?: ParseMargins
+
   /**
    * `LanguageSupport` instance for the language. Requires the language to
    * have been loaded.
@@ -97,6 +114,15 @@ export class TarnationLanguage {
   /** Will be true if the langauge has been loaded once. */
   loaded = false
 
+  /** The language data given when the language was created. */
+  private declare baseLanguageData: Record<string, any>
+
+  /** Editors the language is currently loaded in. */
+  private views = new Set<EditorView>()
+
+  /** Effect that swaps the CodeMirror language out, after a reload. */
+  private reloadEffect = StateEffect.define<Language>()
+
   /** Will be set to the number of milliseconds the last parse time took. */
   performance = 0
 
@@ -113,6 +139,7 @@ export class TarnationLanguage {
     const dataDescription = removeUndefined({ name, alias, extensions })
 
     this.languageData = { ...dataDescription, ...languageData }
+    this.baseLanguageData = this.languageData
     this.nestLanguages = nestLanguages
     this.grammarData = grammar
     this.configure = configure
@@ -129,17 +156,114 @@ export class TarnationLanguage {
    * will just return the previously loaded language.
    */
   load() {
-    // setup grammar data
-    if (this.description?.support) return this.description.support
+    if (this.support) return this.support
+
+    this.build(this.compile())
+
+    // the language is provided by a field, so that it can be swapped out on reload
+    const field = StateField.define<Language>({
+      create: () => this.language!,
+      update: (value, tr) => {
+        for (const effect of tr.effects) {
+          if (effect.is(this.reloadEffect)) value = effect.value
+        }
+        return value
+      },
+      provide: field => language.from(field)
+    })
+
+    const tracker = ViewPlugin.define(view => {
+      this.views.add(view)
+      return { destroy: () => this.views.delete(view) }
+    })
+
+    this.support = new LanguageSupport(this.language!, [
+      Prec.highest(field),
+      tracker,
+      this.extensions
+    ])
+
+    this.loaded = true
+
+    return this.support
+  }
+
+  /**
+   * Rebuilds the language with a new grammar, and updates every editor the
+   * language is loaded in. The editors will reparse their documents from
+   * scratch. If the language hasn't been loaded yet, the new grammar will
+   * just be used when it is.
+   *
+   * If the new grammar fails to compile, an error is thrown and the
+   * language is left unchanged.
+   *
+   * @param grammar - The new grammar definition or snapshot (or a function
+   *   that returns one). If not given, the current grammar is recompiled.
+   */
+  reload(grammar?: DF.Grammar | GrammarSnapshot | (() => DF.Grammar | GrammarSnapshot)) {
+    const last = this.grammarData
+    if (grammar) this.grammarData = grammar
+    if (!this.loaded) return
+
+    let compiled: Grammar
+    try {
+      compiled = this.compile()
+    } catch (err) {
+      this.grammarData = last
+      throw err
+    }
+
+    this.build(compiled)
+
+    const effects = this.reloadEffect.of(this.language!)
+    for (const view of this.views) view.dispatch({ effects })
+  }
+
+  /**
+   * Replaces the configuration of the parser, and then reloads the
+   * language, as if {@link TarnationLanguage.reload} was called.
+   *
+   * @param configure - The new configuration.
+   */
+  reconfigure(configure: ParserConfiguration) {
+    const last = this.configure
+    this.configure = configure
+    try {
+      this.reload()
+    } catch (err) {
+      this.configure = last
+      throw err
+    }
+  }
+
+  /** Compiles the grammar definition, without changing the language. */
+  private compile() {
     const def =
       typeof this.grammarData === "function" ? this.grammarData() : this.grammarData
-    this.grammar = new Grammar(def, this.configure.variables)
+    const { variables, matchers } = this.configure
+    if (isGrammarSnapshot(def)) return loadGrammar(def, variables, matchers)
+    return new Grammar(def, variables, matchers)
+  }
+
+  /**
+   * Sets up the language's node types, parser, etc. for a compiled grammar.
+   *
+   * @param grammar - The compiled grammar to use.
+   */
+  private build(grammar: Grammar) {
+    this.grammar = grammar
 
     // merge data from the grammar
-    Object.assign(this.languageData, this.grammar.data)
+    this.languageData = { ...this.baseLanguageData, ...this.grammar.data }
+
+    this.margins = {
+      ...grammar.margins,
+      ...removeUndefined({ ...this.configure.margins })
+    }
 
     // setup node data
 
+    // a new prop means that any state cached in old trees is ignored
     this.stateProp = new NodeProp<ChunkBuffer>({ perNode: true })
 
     const facet = defineLanguageFacet(this.languageData)
@@ -168,18 +292,13 @@ export class TarnationLanguage {
     this.nodeTypes = nodeTypes
     this.nodeSet = nodeSet
 
+    this.autocompleter = undefined
+
     if (this.configure.autocomplete) {
       this.autocompleter = new Autocompleter(this)
       this.languageData.autocomplete = this.autocompleter.handle.bind(this.autocompleter)
     }
 
-    // setup language support
     this.language = new Language(facet, new ParserFactory(this))
-    this.support = new LanguageSupport(this.language, this.extensions)
-    this.loaded = true
-
-    console.log(this)
-
-    return this.support
   }
 }
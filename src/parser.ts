@@ -21,18 +21,27 @@ import {
   DISABLED_NESTED,
   embeddedParserProp,
   LIMIT_TO_VIEWPORT,
-  MARGIN_AFTER,
-  MARGIN_BEFORE,
   NodeID,
   REUSE_LEFT,
   REUSE_RIGHT
 } from "./constants"
+import type * as DF from "./grammar/definition"
 import type { GrammarState } from "./grammar/state"
 import type { TarnationLanguage } from "./language"
 import { ParseRegion } from "./region"
 import type { GrammarToken } from "./types"
 import { perfy } from "./util"
 
+/**
+ * Patterns for the end of each kind of window a rule can read. `unbounded`
+ * windows have no end, and read everything up to the end of the region.
+ */
+const WINDOW_ENDS: Record<DF.ReadWindow, RegExp | null> = {
+  line: /\n/g,
+  paragraph: /\n[^\S\n]*\n/g,
+  unbounded: null
+}
+
 /**
  * Factory for correctly instantiating {@link Parser} instances. To
  * CodeMirror, this class is the `parser`, and a {@link Parser} is the
@@ -296,12 +305,20 @@ export class Parser implements PartialParse {
       let matchTokens: GrammarToken[] | null = null
       let length = 0
 
-      const start = Math.max(pos - MARGIN_BEFORE, this.region.from)
+      const { before, after } = this.language.margins!
+
+      const start = Math.max(pos - before, this.region.from)
       const startCompensated = this.region.compensate(pos, start - pos)
 
-      const str = this.region.read(startCompensated, MARGIN_AFTER, this.region.to)
+      // the margin after is measured from the position, not the start
+      const str = this.region.read(startCompensated, pos - start + after, this.region.to)
+
+      // windows are only read if a rule asks for one, and then only once
+      const windows: Partial<Record<DF.ReadWindow, string>> = {}
+      const read = (window: DF.ReadWindow) =>
+        (windows[window] ??= this.readWindow(window, startCompensated, str, pos - start))
 
-      const match = this.language.grammar!.match(this.state, str, pos - start, pos)
+      const match = this.language.grammar!.match(this.state, str, pos - start, pos, read)
 
       if (match) {
         this.state = match.state
@@ -337,6 +354,32 @@ export class Parser implements PartialParse {
     return false
   }
 
+  /**
+   * Reads a larger window of the input than the parser's margins, for a
+   * rule that needs to see further ahead. The window starts where the
+   * string it extends does, so positions in either string are the same.
+   *
+   * @param window - How far the window should reach.
+   * @param start - The position the window starts at.
+   * @param str - The string that was already read from `start`.
+   * @param pos - The position the rule is matched at, relative to `start`.
+   */
+  private readWindow(window: DF.ReadWindow, start: number, str: string, pos: number) {
+    const end = WINDOW_ENDS[window]
+    for (;;) {
+      if (end) {
+        end.lastIndex = pos
+        if (end.test(str)) return str
+      }
+      // reads twice as much each time, or everything if the window is unbounded
+      const min = end ? Math.max(str.length * 2, 1024) : Infinity
+      const next = this.region.read(start, min, this.region.to)
+      // end of the region
+      if (next.length <= str.length) return next
+      str = next
+    }
+  }
+
   /**
    * Tries to reuse a buffer _ahead_ of the current position. Returns true
    * if this was successful, otherwise false.
@@ -9,13 +9,21 @@ import type { Input, NodePropSource, SyntaxNodeRef, TreeCursor } from "@lezer/co
 import type { TarnationCompletionContext } from "./completion/context"
 import type { Grammar } from "./grammar/definition"
 import type { Node } from "./grammar/node"
+import type { GrammarSnapshot } from "./grammar/snapshot"
 import type { Rule } from "./grammar/rules/rule"
 import type { State } from "./grammar/rules/state"
 import type { TarnationLanguage } from "./language"
 
 // -- CONFIGURATION
 
-export interface ParserConfiguration {
+/**
+ * Configuration for a Tarnation parser.
+ *
+ * `Names` can be given to restrict the names used, such as autocomplete
+ * handler names, to the names in a grammar. A union of them can be
+ * generated from a grammar definition with `generateGrammarTypes`.
+ */
+export interface ParserConfiguration<Names extends string = string> {
   /** Node props to add to the emitted nodes of the grammar. */
   props?: NodePropSource[]
   /**
@@ -24,11 +32,18 @@ export interface ParserConfiguration {
    */
   variables?: VariableTable
 
+  /**
+   * A record of hand-written matchers, for patterns that can't be written
+   * as a regex, like balanced brackets. They can be used as the pattern of
+   * a rule in the grammar using the `{ matcher: "foo" }` syntax.
+   */
+  matchers?: MatcherTable
+
   /**
    * A special function that can be provided for nesting languages. It is
-   * given a node, in the form of a `SyntaxNodeRef`, and the document `Input`.
-   * It should return `null` (skip this node) or an object with a `name`
-   * string and optionally a list of ranges in the `overlay` property.
+   * given a node, in the form of a `SyntaxNodeRef`, and the document
+   * `Input`. It should return `null` (skip this node) or an object with a
+   * `name` string and optionally a list of ranges in the `overlay` property.
    *
    * If the latter is returned, that information will be used to nest, if
    * possible, the given language (by name) in the ranges specified.
@@ -38,6 +53,13 @@ export interface ParserConfiguration {
     input: Input
   ) => null | { name: string; overlay?: { from: number; to: number }[] }
 
+  /**
+   * Overrides the margins computed from the grammar, which are how many
+   * characters before and after the position being parsed the grammar is
+   * given. Larger margins let patterns see further, but make parsing slower.
+   */
+  margins?: Partial<ParseMargins>
+
   /**
    * Autocompletion source functions. The key is name of the autocomplete
    * handler as given by the grammar definition. A key name can also be a
@@ -64,10 +86,28 @@ export interface ParserConfiguration {
     _traverseUpwards?: boolean
 
     /** Default autocompletion handler if nothing else can used. */
-    "*"?: AutocompleteHandler
+    "*"?: AutocompleteHandler<Names>
+  } & AutocompleteHandlers<Names>
+}
+
+/**
+ * How many characters before and after the position being parsed the
+ * parser gives to the grammar.
+ */
+export interface ParseMargins {
+  /** Characters given before the position. */
+  before: number
+  /** Characters given after the position. */
+  after: number
+}
 
-    [key: string]: AutocompleteHandler | boolean | undefined
-  }
+/**
+ * Autocomplete handlers, by handler name. If `Names` isn't just `string`,
+ * keys must be one of those names, or a whitespace separated list starting
+ * with one.
+ */
+export type AutocompleteHandlers<Names extends string = string> = {
+  [K in Names | `${Names} ${string}`]?: AutocompleteHandler<Names> | boolean
 }
 
 /** The options / interface required to create a Tarnation language. */
@@ -78,12 +118,13 @@ export interface TarnationLanguageDefinition {
    */
   name: string
   /**
-   * The grammar that will be used to tokenize the language.
+   * The grammar that will be used to tokenize the language, either as a
+   * definition or a snapshot made with `compileGrammar`.
    *
    * This value can be provided as a function, which will cause the grammar
    * to be lazily evaluated.
    */
-  grammar: Grammar | (() => Grammar)
+  grammar: Grammar | GrammarSnapshot | (() => Grammar | GrammarSnapshot)
   /**
    * A list (or facet) of `LanguageDescription` objects that will be used
    * when the parser nests in a language.
@@ -105,9 +146,9 @@ export interface TarnationLanguageDefinition {
   supportExtensions?: Extension[]
 }
 
-export type AutocompleteHandler = (
+export type AutocompleteHandler<Names extends string = string> = (
   this: TarnationLanguage,
-  context: TarnationCompletionContext
+  context: TarnationCompletionContext<Names>
 ) => ReturnType<CompletionSource>
 
 // -- GRAMMAR
@@ -131,10 +172,18 @@ export type MatchOutput = null | {
   /** The entirety of the substring matched. */
   total: string
   /**
-   * Captures for this match, if any. Captures must be contiguous
-   * substrings of the total match.
+   * Captures for this match, if any. Without `indices`, captures must be
+   * contiguous substrings of the total match.
    */
   captures: string[] | null
+  /**
+   * Where each capture starts and ends, relative to the start of the
+   * match, or `undefined` for captures that didn't participate. If given,
+   * captures can be nested, and can leave gaps in the match.
+   */
+  indices?: ([number, number] | undefined)[]
+  /** Captures of named groups, by name, for `$name` substitutions. */
+  groups?: Record<string, string>
   /** The length of the match. */
   length: number
 }
@@ -145,6 +194,9 @@ export type Variable = Matcher | string | string[] | RegExp
 /** A simple record of {@link Variable}s. */
 export type VariableTable = Record<string, Variable>
 
+/** A simple record of {@link Matcher}s. */
+export type MatcherTable = Record<string, Matcher>
+
 /** An individual element in a {@link GrammarStack}. */
 export interface GrammarStackElement {
   /** The current parent {@link Node}. */
@@ -158,6 +210,33 @@ export interface GrammarStackElement {
   end: Rule | State | null
 }
 
+/**
+ * A problem found in a grammar definition, such as by `validateGrammar`.
+ * The path is a dot separated JSON path into the definition, e.g.
+ * `repository.BlockStart.captures.0.then`.
+ */
+export interface GrammarDiagnostic {
+  /** The path to the offending value in the definition. */
+  path: string
+  /** A description of the problem. */
+  message: string
+}
+
+/** A {@link GrammarDiagnostic} for a likely mistake in an otherwise valid grammar. */
+export interface GrammarLintDiagnostic extends GrammarDiagnostic {
+  /**
+   * The kind of mistake found.
+   *
+   * - `unreachable`: A repository item that is never used.
+   * - `shadowed`: A rule that an earlier rule always matches before.
+   * - `unused-include`: An `includes` entry that is never included.
+   * - `missing-handler`: An autocomplete name without a handler.
+   * - `unbounded`: A lookbehind, lookahead, `rematch` pattern, or chain with
+   *   `skip` that can look further than the parser's margins.
+   */
+  kind: "unreachable" | "shadowed" | "unused-include" | "missing-handler" | "unbounded"
+}
+
 /** Represents how the parser should nest tokens. */
 export type ParserAction = number[]
 
@@ -171,3 +250,15 @@ export type GrammarToken = [
   open?: ParserAction,
   close?: ParserAction
 ]
+
+/**
+ * The result of converting a grammar written in another format, such as
+ * with `fromTextMate`. The diagnostics list anything that couldn't be
+ * translated, with paths into the original grammar.
+ */
+export interface ConvertedGrammar {
+  /** The converted grammar definition. */
+  grammar: Grammar
+  /** Problems found while converting, which were skipped. */
+  diagnostics: GrammarDiagnostic[]
+}
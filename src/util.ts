@@ -128,17 +128,37 @@ export function hasCapturingGroups(regexp: RegExp) {
  *
  * @param pattern - A `RegExp` to be used as a pattern.
  * @param negative - Negates the pattern.
+ * @param slice - If true, the pattern is tested against the string sliced
+ *   at the position, rather than as a native lookbehind assertion. This is
+ *   needed if the pattern can look past the end of what it matches, e.g.
+ *   with `$` or `\b`, which would otherwise see the text after the position.
  */
-export function createLookbehind(pattern: RegExp, negative?: boolean) {
-  // can't be sticky, global, or multiline
-  const flags = pattern.flags.replaceAll(/[ygm]/g, "")
+export function createLookbehind(pattern: RegExp, negative?: boolean, slice?: boolean) {
+  if (slice) {
+    // can't be sticky, global, or multiline
+    const flags = pattern.flags.replaceAll(/[ygm]/g, "")
+
+    // regexp that can only match at the end of a string
+    const regex = new RegExp(`(?:${pattern.source})$`, flags)
+
+    return (str: string, pos: number) => {
+      const clipped = str.slice(0, pos)
+      const result = regex.test(clipped)
+      return negative ? !result : result
+    }
+  }
 
-  // regexp that can only match at the end of a string
-  const regex = new RegExp(`(?:${pattern.source})$`, flags)
+  // can't be global or multiline, and has to be sticky
+  const flags = `${pattern.flags.replaceAll(/[ygm]/g, "")}y`
+
+  // zero-width regexp that only matches if the pattern ends at its position,
+  // so the string doesn't need to be sliced, and only what the pattern
+  // needs is scanned, backwards from the position
+  const regex = new RegExp(`(?<=${pattern.source})`, flags)
 
   return (str: string, pos: number) => {
-    const clipped = str.slice(0, pos)
-    const result = regex.test(clipped)
+    regex.lastIndex = pos
+    const result = regex.test(str)
     return negative ? !result : result
   }
 }
@@ -189,7 +209,7 @@ export function perfy(): () => number {
 }
 
 /** Removes all properties assigned to `undefined` in an object. */
-export function removeUndefined<T>(obj: T) {
+export function removeUndefined<T extends object>(obj: T) {
   // this wacky approach is faster as it avoids an iterator
   const keys = Object.keys(obj) as (keyof T)[]
   for (let i = 0; i < keys.length; i++) {
@@ -203,6 +223,16 @@ export function escapeRegExp(str: string) {
   return str.replace(/[.*+?^${}()|\[\]\\]/g, "\\$&")
 }
 
+/**
+ * Joins segments of a dot separated JSON path together, e.g.
+ * `repository.Foo.captures.0`. Empty segments are skipped.
+ *
+ * @param segments - The segments to join.
+ */
+export function joinPath(...segments: (string | number)[]) {
+  return segments.filter(segment => segment !== "").join(".")
+}
+
 /** Creates a simple pseudo-random ID, with an optional prefix attached. */
 export function createID(prefix = "") {
   const suffix = Math.abs(hash(Math.random() * 100 + prefix))